@@ -0,0 +1,20 @@
+import { noFloatingAsyncResult } from './no-floating-async-result';
+import { noUnsafeUnwrap } from './no-unsafe-unwrap';
+import { noUnusedResult } from './no-unused-result';
+
+export const rules = {
+  'no-floating-async-result': noFloatingAsyncResult,
+  'no-unsafe-unwrap': noUnsafeUnwrap,
+  'no-unused-result': noUnusedResult,
+};
+
+export const configs = {
+  recommended: {
+    plugins: ['@reismannnr2/async-result'],
+    rules: {
+      '@reismannnr2/async-result/no-floating-async-result': 'error',
+      '@reismannnr2/async-result/no-unsafe-unwrap': 'warn',
+      '@reismannnr2/async-result/no-unused-result': 'error',
+    },
+  },
+};
@@ -0,0 +1,57 @@
+import { createRule, prepend, typeClassifier } from './utils';
+
+/**
+ * reports AsyncResult and AsyncOption evaluated as statements and never awaited,
+ * since the process is left running and the error in it is silently ignored
+ */
+export const noFloatingAsyncResult = createRule({
+  name: 'no-floating-async-result',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Require AsyncResult and AsyncOption values to be awaited or explicitly discarded',
+      category: 'Possible Errors',
+      recommended: 'error',
+      requiresTypeChecking: true,
+      suggestion: true,
+    },
+    messages: {
+      floating:
+        '{{name}} must be awaited, returned or discarded explicitly with void.',
+      discard: 'Discard the {{name}} explicitly with void.',
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const kindsOf = typeClassifier(context);
+    return {
+      ExpressionStatement(node) {
+        const { expression } = node;
+        const kinds = kindsOf(expression);
+        const name = kinds.has('async-result')
+          ? 'AsyncResult'
+          : kinds.has('async-option')
+          ? 'AsyncOption'
+          : undefined;
+        if (!name) {
+          return;
+        }
+        context.report({
+          node,
+          messageId: 'floating',
+          data: { name },
+          suggest: [
+            {
+              // await is not suggested since the awaited result is unused as well
+              messageId: 'discard',
+              data: { name },
+              fix: (fixer) => prepend(fixer, 'void ', expression),
+            },
+          ],
+        });
+      },
+    };
+  },
+});
@@ -0,0 +1,62 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/experimental-utils';
+import { createRule, ResultKind, typeClassifier } from './utils';
+
+/**
+ * kinds on which each method throws
+ */
+const unsafeKinds = new Map<string, ResultKind[]>([
+  ['unwrap', ['err', 'none', 'async-result', 'async-option']],
+  ['unwrapErr', ['ok', 'async-result']],
+]);
+
+/**
+ * reports unwrap() and unwrapErr() which may throw,
+ * unless the receiver is narrowed, e.g. by `if (r.isOk)`
+ */
+export const noUnsafeUnwrap = createRule({
+  name: 'no-unsafe-unwrap',
+  meta: {
+    type: 'problem',
+    docs: {
+      description:
+        'Disallow unwrap() and unwrapErr() which may throw unless the value is narrowed',
+      category: 'Possible Errors',
+      recommended: 'warn',
+      requiresTypeChecking: true,
+    },
+    messages: {
+      unsafe:
+        '{{method}}() may throw, narrow it first or use match(), unwrapOr() or expect() instead.',
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const kindsOf = typeClassifier(context);
+    return {
+      CallExpression(node) {
+        const { callee } = node;
+        if (
+          callee.type !== AST_NODE_TYPES.MemberExpression ||
+          callee.computed ||
+          callee.property.type !== AST_NODE_TYPES.Identifier
+        ) {
+          return;
+        }
+        const method = callee.property.name;
+        const unsafe = unsafeKinds.get(method);
+        if (!unsafe) {
+          return;
+        }
+        const kinds = kindsOf(callee.object);
+        if (unsafe.some((kind) => kinds.has(kind))) {
+          context.report({
+            node: callee.property,
+            messageId: 'unsafe',
+            data: { method },
+          });
+        }
+      },
+    };
+  },
+});
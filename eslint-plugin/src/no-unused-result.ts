@@ -0,0 +1,52 @@
+import { AST_NODE_TYPES } from '@typescript-eslint/experimental-utils';
+import { createRule, prepend, typeClassifier } from './utils';
+
+/**
+ * reports results evaluated as statements and never used,
+ * since the error in them is silently ignored
+ */
+export const noUnusedResult = createRule({
+  name: 'no-unused-result',
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Require Result values to be used or explicitly discarded',
+      category: 'Possible Errors',
+      recommended: 'error',
+      requiresTypeChecking: true,
+      suggestion: true,
+    },
+    messages: {
+      unused:
+        'Result must be handled, use match(), unwrapOr() or pass it to the caller.',
+      discard: 'Discard the result explicitly with void.',
+    },
+    schema: [],
+  },
+  defaultOptions: [],
+  create(context) {
+    const kindsOf = typeClassifier(context);
+    return {
+      ExpressionStatement(node) {
+        const { expression } = node;
+        if (expression.type === AST_NODE_TYPES.AssignmentExpression) {
+          return;
+        }
+        const kinds = kindsOf(expression);
+        if (!kinds.has('ok') && !kinds.has('err')) {
+          return;
+        }
+        context.report({
+          node,
+          messageId: 'unused',
+          suggest: [
+            {
+              messageId: 'discard',
+              fix: (fixer) => prepend(fixer, 'void ', expression),
+            },
+          ],
+        });
+      },
+    };
+  },
+});
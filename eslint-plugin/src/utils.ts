@@ -0,0 +1,147 @@
+import {
+  AST_NODE_TYPES,
+  ESLintUtils,
+  TSESLint,
+  TSESTree,
+} from '@typescript-eslint/experimental-utils';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Type, TypeChecker } from 'typescript';
+
+/**
+ * classes of async-result recognized by rules
+ */
+export type ResultKind =
+  | 'ok'
+  | 'err'
+  | 'some'
+  | 'none'
+  | 'async-result'
+  | 'async-option';
+
+const kinds = new Map<string, ResultKind>([
+  ['Ok', 'ok'],
+  ['Err', 'err'],
+  ['Some', 'some'],
+  ['None', 'none'],
+  ['AsyncResult', 'async-result'],
+  ['AsyncOption', 'async-option'],
+]);
+
+const packageName = '@reismannnr2/async-result';
+
+/**
+ * whether each directory belongs to async-result, cached by directory
+ */
+const ownership = new Map<string, boolean>();
+
+/**
+ * returns the name of given package.json, or undefined if it has none
+ * @param manifest
+ */
+function packageNameOf(manifest: string): string | undefined {
+  try {
+    const { name } = JSON.parse(fs.readFileSync(manifest, 'utf8'));
+    return typeof name === 'string' ? name : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * returns whether given directory belongs to async-result,
+ * decided by the nearest package.json with name
+ * @param directory
+ */
+function ownedByPackage(directory: string): boolean {
+  const cached = ownership.get(directory);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const manifest = path.join(directory, 'package.json');
+  const name = fs.existsSync(manifest) ? packageNameOf(manifest) : undefined;
+  const parent = path.dirname(directory);
+  const owned =
+    name !== undefined
+      ? name === packageName
+      : parent !== directory && ownedByPackage(parent);
+  ownership.set(directory, owned);
+  return owned;
+}
+
+/**
+ * returns kinds of async-result classes which given type can be,
+ * empty if it cannot be any of them.
+ * classes with the same name declared out of async-result are ignored
+ * @param type
+ */
+export function kindsOf(type: Type): Set<ResultKind> {
+  const found = new Set<ResultKind>();
+  for (const t of type.isUnion() ? type.types : [type]) {
+    const symbol = t.getSymbol();
+    const kind = kinds.get(symbol?.getName() ?? '');
+    const declarations = symbol?.getDeclarations() ?? [];
+    if (
+      kind &&
+      declarations.some((d) =>
+        ownedByPackage(path.dirname(d.getSourceFile().fileName)),
+      )
+    ) {
+      found.add(kind);
+    }
+  }
+  return found;
+}
+
+/**
+ * returns a function which returns kinds of async-result classes
+ * which given node can be evaluated to
+ * @param context
+ */
+export function typeClassifier<M extends string, O extends readonly unknown[]>(
+  context: Readonly<TSESLint.RuleContext<M, O>>,
+): (node: TSESTree.Node) => Set<ResultKind> {
+  const services = ESLintUtils.getParserServices(context);
+  const checker: TypeChecker = services.program.getTypeChecker();
+  return (node) =>
+    kindsOf(
+      checker.getTypeAtLocation(services.esTreeNodeToTSNodeMap.get(node)),
+    );
+}
+
+const looseOperators = new Set<AST_NODE_TYPES>([
+  AST_NODE_TYPES.ArrowFunctionExpression,
+  AST_NODE_TYPES.AssignmentExpression,
+  AST_NODE_TYPES.BinaryExpression,
+  AST_NODE_TYPES.ConditionalExpression,
+  AST_NODE_TYPES.LogicalExpression,
+  AST_NODE_TYPES.SequenceExpression,
+  AST_NODE_TYPES.TSAsExpression,
+  AST_NODE_TYPES.YieldExpression,
+]);
+
+/**
+ * returns fixes prepending given unary operator like `void ` to given expression,
+ * with parentheses if needed
+ * @param fixer
+ * @param operator
+ * @param expression
+ */
+export function prepend(
+  fixer: TSESLint.RuleFixer,
+  operator: string,
+  expression: TSESTree.Expression,
+): TSESLint.RuleFix[] {
+  if (!looseOperators.has(expression.type)) {
+    return [fixer.insertTextBefore(expression, operator)];
+  }
+  return [
+    fixer.insertTextBefore(expression, `${operator}(`),
+    fixer.insertTextAfter(expression, ')'),
+  ];
+}
+
+export const createRule = ESLintUtils.RuleCreator(
+  (name) =>
+    `https://github.com/reismannnr2/async-result/tree/master/eslint-plugin#${name}`,
+);
@@ -0,0 +1,45 @@
+import { noFloatingAsyncResult } from '../src/no-floating-async-result';
+import { header, ruleTester } from './rule-tester';
+
+ruleTester.run('no-floating-async-result', noFloatingAsyncResult, {
+  valid: [
+    `${header}async function f() { await asyncResult.map((v) => v + 1); }`,
+    `${header}void asyncResult;`,
+    `${header}const r = some(1).toAsync();`,
+    `${header}function f() { return asyncResult; }`,
+  ],
+  invalid: [
+    {
+      code: `${header}asyncResult.map((v) => v + 1);`,
+      errors: [
+        {
+          messageId: 'floating',
+          data: { name: 'AsyncResult' },
+          suggestions: [
+            {
+              messageId: 'discard',
+              data: { name: 'AsyncResult' },
+              output: `${header}void asyncResult.map((v) => v + 1);`,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      code: `${header}async function f() { none().toAsync(); }`,
+      errors: [
+        {
+          messageId: 'floating',
+          data: { name: 'AsyncOption' },
+          suggestions: [
+            {
+              messageId: 'discard',
+              data: { name: 'AsyncOption' },
+              output: `${header}async function f() { void none().toAsync(); }`,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
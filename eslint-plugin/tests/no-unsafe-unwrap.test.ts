@@ -0,0 +1,32 @@
+import { noUnsafeUnwrap } from '../src/no-unsafe-unwrap';
+import { header, ruleTester } from './rule-tester';
+
+ruleTester.run('no-unsafe-unwrap', noUnsafeUnwrap, {
+  valid: [
+    `${header}ok(1).unwrap();`,
+    `${header}err('').unwrapErr();`,
+    `${header}some(1).unwrap();`,
+    `${header}if (result.isOk) { result.unwrap(); } else { result.unwrapErr(); }`,
+    `${header}if (option.isSome) { option.unwrap(); }`,
+    `${header}result.expect('should be ok');`,
+    `${header}[1].toString();`,
+  ],
+  invalid: [
+    {
+      code: `${header}result.unwrap();`,
+      errors: [{ messageId: 'unsafe', data: { method: 'unwrap' } }],
+    },
+    {
+      code: `${header}result.unwrapErr();`,
+      errors: [{ messageId: 'unsafe', data: { method: 'unwrapErr' } }],
+    },
+    {
+      code: `${header}option.unwrap();`,
+      errors: [{ messageId: 'unsafe' }],
+    },
+    {
+      code: `${header}async function f() { return asyncResult.unwrap(); }`,
+      errors: [{ messageId: 'unsafe' }],
+    },
+  ],
+});
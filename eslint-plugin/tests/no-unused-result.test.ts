@@ -0,0 +1,58 @@
+import { noUnusedResult } from '../src/no-unused-result';
+import { header, ruleTester } from './rule-tester';
+
+ruleTester.run('no-unused-result', noUnusedResult, {
+  valid: [
+    `${header}const r = ok(1);`,
+    `${header}let r = result; r = err('error');`,
+    `${header}void result.map((v) => v + 1);`,
+    `${header}result.match({ ok: console.log, err: console.error });`,
+    `${header}class Ok { isOk = true; } new Ok();`,
+    `${header}class Ok { isOk = true; isErr = false; match() { return 0; } } new Ok();`,
+    `${header}async function f() { return await asyncResult; }`,
+  ],
+  invalid: [
+    {
+      code: `${header}result.map((v) => v + 1);`,
+      errors: [
+        {
+          messageId: 'unused',
+          suggestions: [
+            {
+              messageId: 'discard',
+              output: `${header}void result.map((v) => v + 1);`,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      code: `${header}async function f() { await asyncResult; }`,
+      errors: [
+        {
+          messageId: 'unused',
+          suggestions: [
+            {
+              messageId: 'discard',
+              output: `${header}async function f() { void await asyncResult; }`,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      code: `${header}option.isSome ? ok(1) : err('');`,
+      errors: [
+        {
+          messageId: 'unused',
+          suggestions: [
+            {
+              messageId: 'discard',
+              output: `${header}void (option.isSome ? ok(1) : err(''));`,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+});
@@ -0,0 +1,19 @@
+import { ESLintUtils } from '@typescript-eslint/experimental-utils';
+import * as path from 'path';
+
+/**
+ * imports of the library for code under test, placed at fixtures/file.ts
+ */
+export const header = `import { AsyncResult, err, none, ok, Option, Result, some } from '../../../index';
+declare const result: Result<number, string>;
+declare const option: Option<number>;
+declare const asyncResult: AsyncResult<number, string>;
+`;
+
+export const ruleTester = new ESLintUtils.RuleTester({
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    tsconfigRootDir: path.join(__dirname, 'fixtures'),
+    project: './tsconfig.json',
+  },
+});
@@ -2,3 +2,16 @@ export * from './src/result';
 export * from './src/async-result';
 export * from './src/option';
 export * from './src/async-option';
+export {
+  Defect,
+  ResultError,
+  UnwrapError,
+  UnwrapNoneError,
+  onDefect,
+} from './src/errors';
+export { jsonReviver } from './src/json';
+export * from './src/decoder';
+export * from './src/validation';
+export * from './src/helpers';
+export * from './src/result-stream';
+export * from './src/result-map';
@@ -1,28 +1,100 @@
-import { Option, OptionMatcher } from './option';
+import {
+  AnyOption,
+  Falsy,
+  InferSome,
+  KeyPaths,
+  None,
+  none,
+  Option,
+  OptionMatcher,
+  PathValue,
+  some,
+} from './option';
 import { AsyncResult } from 'src/async-result';
 import { Result } from 'src/result';
+import { rebuild, Shape, valuesOf } from './shape';
+import { defectOf } from './errors';
+
+/**
+ * AsyncOption or promise of any option, taken by concurrent collection functions
+ */
+type AnyAsyncOption = AsyncOption<unknown> | Promise<AnyOption>;
+
+/**
+ * option type which given AsyncOption or promise resolves to
+ */
+type Settled<O> = O extends AsyncOption<infer T> ? Option<T> : Awaited<O>;
+
+type SomeShape<R> = { -readonly [K in keyof R]: InferSome<Settled<R[K]>> };
+
+function promiseOf(op: AnyAsyncOption): Promise<Option<unknown>> {
+  return op instanceof AsyncOption
+    ? op.promise
+    : (op as Promise<Option<unknown>>);
+}
 
 /**
  * a class for treating optional value with same interface continuously.
  * It does not have fooAsync instance method since all methods can work with promise.
+ * the inner promise never rejects, unlike AsyncResult an option cannot hold the error,
+ * so unexpected exceptions thrown in callbacks resolve to none
+ * and the Defect is reported only to the hook registered by onDefect()
  */
-export class AsyncOption<T> {
-  constructor(readonly promise: Promise<Option<T>>) {}
+export class AsyncOption<T> implements PromiseLike<Option<T>> {
+  readonly promise: Promise<Option<T>>;
+  /**
+   * @param promise rejection of it resolves to none, reporting the Defect to onDefect()
+   */
+  constructor(promise: Promise<Option<T>>) {
+    this.promise = promise.catch((cause) => {
+      defectOf(cause);
+      return none();
+    });
+  }
+
+  /**
+   * returns the inner value if some when delegated by yield* in AsyncOption.gen,
+   * otherwise yields none to stop the generator
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<None, T> {
+    return yield* await this.promise;
+  }
 
   /**
-   * exposes inner promise value for convenience.
+   * exposes inner promise value for convenience, which never rejects
    */
   toPromise(): Promise<Option<T>> {
     return this.promise;
   }
 
   /**
-   * returns the inner value promise if some, otherwise rejected promise
+   * makes AsyncOption awaitable, resolves to inner option
+   * @param onfulfilled
+   * @param onrejected
+   */
+  then<R1 = Option<T>, R2 = never>(
+    onfulfilled?: ((option: Option<T>) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * returns the inner value promise if some, otherwise promise rejected with UnwrapNoneError
    */
   async unwrap(): Promise<T> {
     return (await this.promise).unwrap();
   }
 
+  /**
+   * returns the inner value promise if some,
+   * otherwise promise rejected with UnwrapNoneError with given message
+   * @param message
+   */
+  async expect(message: string): Promise<T> {
+    return (await this.promise).expect(message);
+  }
+
   /**
    * returns the inner value promise if some, otherwise the given alternate
    * @param alternate
@@ -149,6 +221,49 @@ export class AsyncOption<T> {
     return this.asyncOp(async (op) => op.xor(await other));
   }
 
+  /**
+   * calls given function with the inner value if some without waiting for it,
+   * and returns just this.
+   * if the function throws, it resolves to none
+   * and the Defect is reported to onDefect(), same as map()
+   * @param f
+   */
+  inspect(f: (value: T) => void): AsyncOption<T> {
+    return this.asyncOp(async (op) => op.inspect(f));
+  }
+
+  /**
+   * calls given function with the inner value if some and waits for it,
+   * and returns just this.
+   * if the function throws, it resolves to none
+   * and the Defect is reported to onDefect(), same as map()
+   * @param f
+   */
+  tap(f: (value: T) => unknown): AsyncOption<T> {
+    return this.asyncOp((op) => op.tap(f));
+  }
+
+  /**
+   * returns the inner option if some,
+   * otherwise none.
+   * callable only when the inner value is an option
+   */
+  flatten<U>(this: AsyncOption<Option<U>>): AsyncOption<U> {
+    return this.andThen((op) => op);
+  }
+
+  /**
+   * converts AsyncOption<Result<U, E>> into AsyncResult<Option<U>, E>,
+   * Ok with some if some with Ok, the inner Err if some with Err,
+   * otherwise Ok with none.
+   * callable only when the inner value is a result
+   */
+  transpose<U, E>(this: AsyncOption<Result<U, E>>): AsyncResult<Option<U>, E> {
+    return new AsyncResult<Option<U>, E>(
+      (async () => (await this.promise).transpose())(),
+    );
+  }
+
   /**
    * returns AsyncResult<T, E> that contains inner value if ok,
    * otherwise error created by given function
@@ -160,6 +275,20 @@ export class AsyncOption<T> {
     );
   }
 
+  /**
+   * returns a promise of the inner value if some, otherwise of null
+   */
+  async toNullable(): Promise<T | null> {
+    return (await this.promise).toNullable();
+  }
+
+  /**
+   * returns a promise of the inner value if some, otherwise of undefined
+   */
+  async toUndefined(): Promise<T | undefined> {
+    return (await this.promise).toUndefined();
+  }
+
   /**
    * returns Promise<Result<T, E>> that contains inner value if ok,
    * otherwise error created by given function
@@ -170,4 +299,156 @@ export class AsyncOption<T> {
   ): Promise<Result<T, E>> {
     return (await this.promise).toResultAsync(onError);
   }
+
+  /**
+   * returns none if given value or the promised one is null or undefined,
+   * otherwise some of it
+   * @param value
+   */
+  static from<T>(value: T | PromiseLike<T>): AsyncOption<NonNullable<T>> {
+    return new AsyncOption((async () => Option.from(await value))());
+  }
+
+  /**
+   * returns none if given value or the promised one is falsy,
+   * otherwise some of it
+   * @param value
+   */
+  static fromFalsy<T>(
+    value: T | PromiseLike<T>,
+  ): AsyncOption<Exclude<T, Falsy>> {
+    return new AsyncOption((async () => Option.fromFalsy(await value))());
+  }
+
+  /**
+   * returns some of given value or the promised one if it satisfies given predicate,
+   * otherwise none.
+   * narrows the type if the predicate is a type guard
+   * @param value
+   * @param predicate
+   */
+  static fromPredicate<T, U extends T = T>(
+    value: T | PromiseLike<T>,
+    predicate:
+      | ((value: T) => value is U)
+      | ((value: T) => boolean | Promise<boolean>),
+  ): AsyncOption<U> {
+    return new AsyncOption(
+      (async () => {
+        const v = await value;
+        return (await predicate(v)) ? some(v as U) : none<U>();
+      })(),
+    );
+  }
+
+  /**
+   * returns some of the value reached by given keys from given object or the promised one,
+   * otherwise none if null or undefined is found on the way.
+   * keys are checked by the type of the object
+   * @param obj
+   * @param keys
+   */
+  static path<T, K extends KeyPaths<T>>(
+    obj: T | PromiseLike<T>,
+    ...keys: K
+  ): AsyncOption<PathValue<T, K>> {
+    return new AsyncOption(
+      (async () => Option.path<T, K>(await obj, ...keys))(),
+    );
+  }
+
+  /**
+   * runs given async generator function, `yield* option` returns the inner value if some,
+   * otherwise stops the generator and returns none.
+   * Option, AsyncOption and awaited Promise<Option> can be delegated by yield*.
+   * @param f
+   */
+  static gen<T>(f: () => AsyncGenerator<None, T>): AsyncOption<T> {
+    return new AsyncOption<T>(
+      (async () => {
+        const generator = f();
+        const step = await generator.next();
+        if (step.done) {
+          return some(step.value);
+        }
+        await generator.return(undefined as unknown as T);
+        return none<T>();
+      })(),
+    );
+  }
+
+  /**
+   * runs given options concurrently,
+   * returns some with an array or a record of inner values if all options are some,
+   * otherwise none as soon as the first none is settled.
+   * keeps each type of tuple elements and record properties.
+   * @param options
+   */
+  static all<R extends Shape<AnyAsyncOption>>(
+    options: R,
+  ): AsyncOption<SomeShape<R>> {
+    const promises = valuesOf(options).map(promiseOf);
+    return new AsyncOption(
+      new Promise((resolve, reject) => {
+        const values: unknown[] = [];
+        let remaining = promises.length;
+        const resolveSome = () =>
+          resolve(some(rebuild(options, values) as SomeShape<R>));
+        if (remaining === 0) {
+          resolveSome();
+        }
+        promises.forEach((promise, i) =>
+          promise.then((op) => {
+            if (op.isNone) {
+              resolve(none());
+              return;
+            }
+            values[i] = op.value;
+            remaining -= 1;
+            if (remaining === 0) {
+              resolveSome();
+            }
+          }, reject),
+        );
+      }),
+    );
+  }
+
+  /**
+   * runs given options concurrently,
+   * returns the first some in order of given options as soon as all options before it are settled,
+   * otherwise none
+   * @param options
+   */
+  static firstSome<O extends AnyAsyncOption>(
+    options: Iterable<O>,
+  ): AsyncOption<InferSome<Settled<O>>> {
+    const promises = Array.from(options, promiseOf);
+    return new AsyncOption(
+      new Promise((resolve, reject) => {
+        const settled: Option<unknown>[] = [];
+        let cursor = 0;
+        const advance = () => {
+          while (cursor < promises.length && settled[cursor]) {
+            const op = settled[cursor];
+            if (op.isSome) {
+              resolve(op as Option<InferSome<Settled<O>>>);
+              return;
+            }
+            cursor += 1;
+          }
+          if (cursor === promises.length) {
+            resolve(none());
+          }
+        };
+        promises.forEach((promise, i) =>
+          promise.then((op) => {
+            settled[i] = op;
+            advance();
+          }, reject),
+        );
+        advance();
+      }),
+    );
+  }
 }
@@ -1,35 +1,333 @@
-import { err, Err, ok, Ok, Result, ResultMatcher } from './result';
+import {
+  AnyResult,
+  err,
+  Err,
+  ErrTag,
+  ErrTagMatcher,
+  InferErr,
+  InferOk,
+  ok,
+  Ok,
+  Result,
+  ResultMatcher,
+} from './result';
 import { AsyncOption } from 'src/async-option';
 import { Option } from 'src/option';
+import { rebuild, Shape, ShapeValue, valuesOf } from './shape';
+import { Defect, defectOf } from './errors';
 
-export class AsyncResult<T, E> {
-  constructor(readonly promise: Promise<Result<T, E> | Ok<T, E> | Err<E, T>>) {}
+/**
+ * AsyncResult or promise of any result, taken by concurrent collection functions
+ */
+type AnyAsyncResult = AsyncResult<unknown, unknown> | Promise<AnyResult>;
+
+/**
+ * result type which given AsyncResult or promise resolves to, without Defect
+ */
+type Settled<R> = R extends AsyncResult<infer T, infer E>
+  ? Result<T, E>
+  : Awaited<R>;
+
+/**
+ * result type which given AsyncResult or promise actually resolves to, with Defect
+ */
+type Outcome<R> = R extends AsyncResult<infer T, infer E>
+  ? Result<T, E | Defect>
+  : Awaited<R>;
+
+type OkShape<R> = { -readonly [K in keyof R]: InferOk<Settled<R[K]>> };
+type ErrShape<R> = { -readonly [K in keyof R]: InferErr<Settled<R[K]>> };
+type OutcomeShape<R> = { -readonly [K in keyof R]: Outcome<R[K]> };
+
+/**
+ * options for AsyncResult.traverse
+ */
+export interface TraverseOptions {
+  /**
+   * max number of processes running at once, unlimited by default
+   */
+  concurrency?: number;
+  /**
+   * stops at the first Err if true or omitted,
+   * otherwise runs all processes and collects all errors
+   */
+  failFast?: boolean;
+}
+
+/**
+ * error of AsyncResult.retry, the last error and the number of attempts
+ */
+export interface RetryError<E> {
+  error: E;
+  attempts: number;
+}
+
+/**
+ * options for AsyncResult.retry
+ */
+export interface RetryOptions<E> {
+  /**
+   * max number of attempts, including the first one
+   */
+  attempts: number;
+  /**
+   * 'fixed' waits delay every time,
+   * 'exponential' doubles it every attempt,
+   * 'fixed' by default
+   */
+  backoff?: 'fixed' | 'exponential';
+  /**
+   * base wait time between attempts in milliseconds, 0 by default
+   */
+  delay?: number;
+  /**
+   * upper bound of wait time in milliseconds, unlimited by default
+   */
+  maxDelay?: number;
+  /**
+   * randomizes each wait time between 0 and the computed one if true
+   */
+  jitter?: boolean;
+  /**
+   * retries only if this returns true, always retries by default
+   */
+  shouldRetry?: (error: E, attempt: number) => boolean;
+  /**
+   * waits given milliseconds, setTimeout by default
+   */
+  sleep?: (ms: number) => Promise<void>;
+  /**
+   * returns a random number in [0, 1) for jitter, Math.random by default
+   */
+  random?: () => number;
+}
+
+/**
+ * error of AsyncResult aborted by AbortSignal
+ */
+export interface Cancelled {
+  type: 'cancelled';
+  reason: unknown;
+}
+
+/**
+ * node-style callback, called with error or null and the value
+ */
+export type NodeCallback<T, E = unknown> = (
+  error: E | null | undefined,
+  value?: T,
+) => void;
+
+/**
+ * minimal EventEmitter interface taken by AsyncResult.fromEvent
+ */
+export interface EventSource {
+  once(event: string | symbol, listener: (...args: unknown[]) => void): unknown;
+  removeListener(
+    event: string | symbol,
+    listener: (...args: unknown[]) => void,
+  ): unknown;
+}
+
+function cancelled(signal: AbortSignal): Err<Cancelled> {
+  return err({
+    type: 'cancelled',
+    reason: (signal as AbortSignal & { reason?: unknown }).reason,
+  });
+}
+
+/**
+ * returns a promise resolves to given promise,
+ * or Err<Cancelled> if the signal is aborted before that
+ */
+function abortable<T, E>(
+  promise: Promise<Result<T, E>>,
+  signal: AbortSignal,
+): Promise<Result<T, E | Cancelled>> {
+  if (signal.aborted) {
+    return Promise.resolve(cancelled(signal));
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(cancelled(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (r) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(r);
+      },
+      (e) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(e);
+      },
+    );
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function promiseOf<T, E>(
+  r: AsyncResult<T, E> | Result<T, E> | Promise<Result<T, E>>,
+): Promise<Result<T, E | Defect>>;
+function promiseOf(r: AnyAsyncResult): Promise<Result<unknown, unknown>>;
+function promiseOf(
+  r: AsyncResult<unknown, unknown> | AnyResult | Promise<AnyResult>,
+): Promise<Result<unknown, unknown>> {
+  return r instanceof AsyncResult
+    ? r.promise
+    : Promise.resolve(r as Result<unknown, unknown>);
+}
+
+function isDefect<T>(r: Result<T, unknown>): r is Err<Defect, T> {
+  return r.isErr && Defect.isDefect(r.error);
+}
+
+/**
+ * a class for treating asynchronous failable process continuously,
+ * awaited to Result<T, E | Defect>.
+ * the inner promise never rejects,
+ * unexpected exceptions thrown in callbacks resolve to Err<Defect> instead.
+ * callbacks for E are skipped for Err<Defect> and carry it as is,
+ * and consumers like match() and unwrapOrElse() receive E | Defect same as the awaited result.
+ */
+export class AsyncResult<T, E> implements PromiseLike<Result<T, E | Defect>> {
+  readonly promise: Promise<Result<T, E | Defect>>;
+  /**
+   * @param promise rejection of it resolves to Err<Defect>
+   * @param signal once aborted, callbacks of following methods are skipped and Ok becomes Err<Cancelled>.
+   * E must contain Cancelled, use withSignal() instead to get it typed.
+   * methods remapping E drop the signal, since Cancelled may be removed from E by them.
+   */
+  constructor(
+    promise: Promise<
+      Result<T, E | Defect> | Ok<T, E | Defect> | Err<E | Defect, T>
+    >,
+    readonly signal?: AbortSignal,
+  ) {
+    this.promise = promise.catch((cause) => err<Defect, T>(defectOf(cause)));
+  }
   private asyncRs<U, EU>(
-    f: (r: Result<T, E>) => Promise<Result<U, EU>>,
+    f: (r: Result<T, E | Defect>) => Promise<Result<U, EU | Defect>>,
+    carriesSignal = true,
   ): AsyncResult<U, EU> {
-    return new AsyncResult<U, EU>((async () => f(await this.promise))());
+    const { signal } = this;
+    return new AsyncResult<U, EU>(
+      (async () => {
+        const r = await this.promise;
+        if (signal?.aborted && r.isOk) {
+          // E contains Cancelled while the signal is carried, see constructor
+          return f(cancelled(signal) as unknown as Err<E, T>);
+        }
+        return f(r);
+      })(),
+      carriesSignal ? signal : undefined,
+    );
   }
 
   /**
-   * just returns inner promise
+   * same as asyncRs(), but Err<Defect> skips given function
+   * since callbacks for E never expect Defect
    */
-  toPromise(): Result<T, E> {
-    return this.promise as unknown as Result<T, E>;
+  private asyncErrRs<U, EU>(
+    f: (r: Result<T, E>) => Promise<Result<U, EU | Defect>>,
+    carriesSignal = true,
+  ): AsyncResult<U, EU> {
+    return this.asyncRs<U, EU>(
+      // E never contains Defect, it is the separate state of AsyncResult
+      async (r) => (isDefect(r) ? r.never() : f(r as Result<T, E>)),
+      carriesSignal,
+    );
+  }
+
+  /**
+   * returns inner successful value if ok when delegated by yield* in AsyncResult.gen,
+   * otherwise yields current Err to stop the generator
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<Err<E | Defect>, T> {
+    return yield* await this.promise;
+  }
+
+  /**
+   * just returns inner promise, which never rejects
+   */
+  toPromise(): Promise<Result<T, E | Defect>> {
+    return this.promise;
+  }
+  /**
+   * makes AsyncResult awaitable, resolves to inner result
+   * @param onfulfilled
+   * @param onrejected
+   */
+  then<R1 = Result<T, E | Defect>, R2 = never>(
+    onfulfilled?:
+      | ((result: Result<T, E | Defect>) => R1 | PromiseLike<R1>)
+      | null,
+    onrejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null,
+  ): Promise<R1 | R2> {
+    return this.promise.then(onfulfilled, onrejected);
+  }
+  /**
+   * calls given node-style callback with inner value if ok,
+   * otherwise with inner error.
+   * exceptions thrown by the callback are rethrown out of the promise chain
+   * as uncaught exceptions, same as util.callbackify
+   * @param callback
+   */
+  toCallback(callback: NodeCallback<T, E | Defect>): void {
+    this.promise.then((r) => {
+      try {
+        r.match({
+          ok: (value) => callback(null, value),
+          err: (error) => callback(error),
+        });
+      } catch (e) {
+        queueMicrotask(() => {
+          throw e;
+        });
+      }
+    });
   }
   /**
    * returns a promise of inner successful value if ok,
-   * otherwise rejected promise
+   * otherwise promise rejected with UnwrapError
    */
   async unwrap(): Promise<T> {
     return (await this.promise).unwrap();
   }
   /**
    * returns a promise of inner error value if err,
-   * otherwise rejected promise
+   * otherwise promise rejected with UnwrapError
    */
-  async unwrapErr(): Promise<E> {
+  async unwrapErr(): Promise<E | Defect> {
     return (await this.promise).unwrapErr();
   }
+  /**
+   * returns a promise of inner successful value if ok,
+   * otherwise promise rejected with UnwrapError with given message
+   * @param message
+   */
+  async expect(message: string): Promise<T> {
+    return (await this.promise).expect(message);
+  }
+  /**
+   * returns a promise of inner error value if err,
+   * otherwise promise rejected with UnwrapError with given message
+   * @param message
+   */
+  async expectErr(message: string): Promise<E | Defect> {
+    return (await this.promise).expectErr(message);
+  }
+  /**
+   * returns a promise of inner successful value if ok,
+   * otherwise promise rejected with the result of given function
+   * @param mapToThrowable
+   */
+  async unwrapOrThrow(
+    mapToThrowable: (error: E | Defect) => unknown,
+  ): Promise<T> {
+    return (await this.promise).unwrapOrThrow(mapToThrowable);
+  }
 
   /**
    * returns a promise of inner successful value if ok,
@@ -43,18 +341,62 @@ export class AsyncResult<T, E> {
    * otherwise the result of given alter function
    */
   async unwrapOrElse<U = T>(
-    alter: (error: E) => U | Promise<U>,
+    alter: (error: E | Defect) => U | Promise<U>,
   ): Promise<T | U> {
     return (await this.promise).unwrapOrElse(alter);
   }
   /**
    * returns a promise of result from the matcher function corresponding to current state
-   * calls ok if ok, err if err
+   * calls ok if ok, err if err including Err<Defect>
    * @param matcher
    */
-  async match<R>(matcher: ResultMatcher<T, E, R>): Promise<R> {
+  async match<R>(matcher: ResultMatcher<T, E | Defect, R>): Promise<R> {
     return (await this.promise).match(matcher);
   }
+  /**
+   * returns a promise of inner value if ok,
+   * otherwise of the result of the handler for the type of inner error.
+   * requires a handler for every type of tagged error union and 'defect' for Defect,
+   * callable only when every type of error is tagged.
+   * rejects with ResultError with the inner error as cause if no handler matches it
+   * @param handlers
+   */
+  async matchErr<R>(handlers: ErrTagMatcher<E | Defect, R>): Promise<T | R> {
+    return (await this.promise).matchErr(handlers);
+  }
+  /**
+   * returns just current result unless err with given type,
+   * otherwise a new result created by given function with inner error.
+   * the handled type is excluded from error type.
+   * callable only when every type of error is tagged
+   * @param tag
+   * @param handler
+   */
+  catchTag<K extends ErrTag<E>, U, EU = never>(
+    tag: K,
+    handler: (
+      error: Extract<E, { type: K }>,
+    ) => Result<U, EU> | Promise<Result<U, EU>>,
+  ): AsyncResult<T | U, Exclude<E, { type: K }> | EU> {
+    return this.asyncErrRs<T | U, Exclude<E, { type: K }> | EU>(async (r) => {
+      if (r.isErr && (r.error as { type?: unknown } | null)?.type === tag) {
+        return handler(r.error as Extract<E, { type: K }>);
+      }
+      return r as Result<T, Exclude<E, { type: K }>>;
+    }, false);
+  }
+  /**
+   * returns just current result unless Err<Defect>,
+   * otherwise a new result created by given function with the Defect
+   * @param handler
+   */
+  catchDefect<U, EU = never>(
+    handler: (defect: Defect) => Result<U, EU> | Promise<Result<U, EU>>,
+  ): AsyncResult<T | U, E | EU> {
+    return this.asyncRs<T | U, E | EU>(async (r) =>
+      isDefect(r) ? handler(r.error) : r,
+    );
+  }
   /**
    * returns inner value transformed Ok if ok,
    * otherwise just current Err<E>
@@ -69,7 +411,7 @@ export class AsyncResult<T, E> {
    * @param transform
    */
   mapErr<EU>(transform: (error: E) => EU | Promise<EU>): AsyncResult<T, EU> {
-    return this.asyncRs((r) => r.mapErrAsync(transform));
+    return this.asyncErrRs((r) => r.mapErrAsync(transform), false);
   }
   /**
    * returns a new result created by given function with inner value if ok,
@@ -89,7 +431,7 @@ export class AsyncResult<T, E> {
   orElse<EU, U = T>(
     transform: (error: E) => Result<U, EU> | Promise<Result<U, EU>>,
   ): AsyncResult<T | U, EU> {
-    return this.asyncRs<T | U, EU>((r) => r.orElseAsync(transform));
+    return this.asyncErrRs<T | U, EU>((r) => r.orElseAsync(transform), false);
   }
   /**
    * returns given replace result if ok,
@@ -109,7 +451,10 @@ export class AsyncResult<T, E> {
   or<EU, U = T>(
     alternate: Result<U, EU> | Promise<Result<U, EU>>,
   ): AsyncResult<T | U, EU> {
-    return this.asyncRs<T | U, EU>(async (r) => r.or(await alternate));
+    return this.asyncErrRs<T | U, EU>(
+      async (r) => r.or(await alternate),
+      false,
+    );
   }
 
   /**
@@ -136,9 +481,117 @@ export class AsyncResult<T, E> {
     return (await this.promise).testAsync(predicate);
   }
 
+  /**
+   * returns Err created by given function if not settled in given milliseconds,
+   * otherwise just current result
+   * @param ms
+   * @param onTimeout
+   */
+  timeout<TE>(ms: number, onTimeout: () => TE): AsyncResult<T, E | TE> {
+    return new AsyncResult<T, E | TE>(
+      new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+          try {
+            resolve(err(onTimeout()));
+          } catch (e) {
+            // resolves to Err<Defect> same as other callbacks
+            reject(e);
+          }
+        }, ms);
+        this.promise.then(
+          (r) => {
+            clearTimeout(timer);
+            resolve(r);
+          },
+          (e) => {
+            clearTimeout(timer);
+            reject(e);
+          },
+        );
+      }),
+      this.signal,
+    );
+  }
+
+  /**
+   * returns Err<Cancelled> as soon as given signal is aborted,
+   * and after that, callbacks of following methods are skipped and Ok becomes Err<Cancelled>,
+   * until the error is remapped by mapErr(), orElse(), or() or catchTag().
+   * @param signal
+   */
+  withSignal(signal: AbortSignal): AsyncResult<T, E | Cancelled> {
+    return new AsyncResult<T, E | Cancelled>(
+      abortable(this.promise, signal),
+      signal,
+    );
+  }
+
+  /**
+   * calls given function with inner value if ok without waiting for it,
+   * and returns just current result.
+   * if the function throws, it resolves to Err<Defect>
+   * @param f
+   */
+  inspect(f: (value: T) => void): AsyncResult<T, E> {
+    return this.asyncRs(async (r) => r.inspect(f));
+  }
+
+  /**
+   * calls given function with inner error if err without waiting for it,
+   * and returns just current result.
+   * if the function throws, it resolves to Err<Defect>
+   * @param f
+   */
+  inspectErr(f: (error: E) => void): AsyncResult<T, E> {
+    return this.asyncErrRs(async (r) => r.inspectErr(f));
+  }
+
+  /**
+   * calls given function with inner value if ok and waits for it,
+   * and returns just current result.
+   * if the function throws, it resolves to Err<Defect>
+   * @param f
+   */
+  tap(f: (value: T) => unknown): AsyncResult<T, E> {
+    return this.asyncRs((r) => r.tap(f));
+  }
+
+  /**
+   * calls given function with inner error if err and waits for it,
+   * and returns just current result.
+   * if the function throws, it resolves to Err<Defect>
+   * @param f
+   */
+  tapErr(f: (error: E) => unknown): AsyncResult<T, E> {
+    return this.asyncErrRs((r) => r.tapErr(f));
+  }
+
+  /**
+   * returns inner result if ok,
+   * otherwise just current Err.
+   * callable only when inner value is a result
+   */
+  flatten<U, EU>(this: AsyncResult<Result<U, EU>, E>): AsyncResult<U, E | EU> {
+    return this.andThen((r) => r);
+  }
+
+  /**
+   * converts AsyncResult<Option<U>, E> into AsyncOption<Result<U, E>>,
+   * none if ok with none, some with Ok if ok with some,
+   * otherwise some with current Err.
+   * callable only when inner value is an option
+   */
+  transpose<U>(
+    this: AsyncResult<Option<U>, E>,
+  ): AsyncOption<Result<U, E | Defect>> {
+    return new AsyncOption<Result<U, E | Defect>>(
+      (async () => (await this.promise).transpose())(),
+    );
+  }
+
   /**
    * returns a promise of Some<T> with inner value if ok,
-   * otherwise None, discards error
+   * otherwise None, discards error including Defect
    */
   async toOptionPromise(): Promise<Option<T>> {
     return (await this.promise).toOption();
@@ -146,7 +599,7 @@ export class AsyncResult<T, E> {
 
   /**
    * returns an AsyncOption<T>, contains inner value if Ok,
-   * otherwise AsyncOption<T> which is None, discards error
+   * otherwise AsyncOption<T> which is None, discards error including Defect
    */
   toAsyncOption(): AsyncOption<T> {
     return new AsyncOption<T>(this.toOptionPromise());
@@ -177,4 +630,414 @@ export class AsyncResult<T, E> {
       })(),
     );
   }
+
+  /**
+   * returns the promised value wrap in Ok<T> if resolved,
+   * the rejection reason transformed by mapError wrap in Err<E> if rejected
+   * @param promise
+   * @param mapError
+   */
+  static fromPromise<T, E>(
+    promise: PromiseLike<T>,
+    mapError: (reason: unknown) => E,
+  ): AsyncResult<T, E> {
+    return new AsyncResult<T, E>(
+      Promise.resolve(promise).then(
+        (value) => ok(value),
+        (reason) => err(mapError(reason)),
+      ),
+    );
+  }
+
+  /**
+   * calls given function with node-style callback,
+   * returns the value passed to the callback wrap in Ok<T>,
+   * the error passed to the callback or thrown wrap in Err<E>.
+   * E type is optional and not checked, since exception type cannot be inferred.
+   * @param f
+   */
+  static fromCallback<T, E = unknown>(
+    f: (callback: NodeCallback<T, E>) => void,
+  ): AsyncResult<T, E> {
+    return new AsyncResult<T, E>(
+      new Promise((resolve) => {
+        try {
+          f((error, value) =>
+            resolve(
+              error === null || error === undefined
+                ? ok(value as T)
+                : err(error),
+            ),
+          );
+        } catch (e) {
+          resolve(err(e as E));
+        }
+      }),
+    );
+  }
+
+  /**
+   * returns the first argument of the success event wrap in Ok<T>,
+   * the first argument of the error event wrap in Err<E>,
+   * whichever emitted first. listeners are removed after that.
+   * E type is optional and not checked, since event type cannot be inferred.
+   * @param emitter
+   * @param successEvent
+   * @param errorEvent 'error' by default
+   */
+  static fromEvent<T, E = unknown>(
+    emitter: EventSource,
+    successEvent: string | symbol,
+    errorEvent: string | symbol = 'error',
+  ): AsyncResult<T, E> {
+    return new AsyncResult<T, E>(
+      new Promise((resolve) => {
+        const onSuccess = (...args: unknown[]) => {
+          emitter.removeListener(errorEvent, onError);
+          resolve(ok(args[0] as T));
+        };
+        const onError = (...args: unknown[]) => {
+          emitter.removeListener(successEvent, onSuccess);
+          resolve(err(args[0] as E));
+        };
+        emitter.once(successEvent, onSuccess);
+        emitter.once(errorEvent, onError);
+      }),
+    );
+  }
+
+  /**
+   * return the result of given function called with an AbortSignal wrap in Ok<T> if succeeded,
+   * wrap error in Err<E> if thrown, Err<Cancelled> if the signal is aborted.
+   * E type is optional and not checked, since exception type cannot be inferred.
+   * the signal is carried to following methods as withSignal() does.
+   * @param f
+   * @param signal
+   */
+  static fromAbortable<T, E = unknown>(
+    f: (signal: AbortSignal) => T | Promise<T>,
+    signal: AbortSignal = new AbortController().signal,
+  ): AsyncResult<T, E | Cancelled> {
+    return new AsyncResult<T, E>(
+      (async () => {
+        try {
+          return ok(await f(signal));
+        } catch (e) {
+          return err(e as E);
+        }
+      })(),
+    ).withSignal(signal);
+  }
+
+  /**
+   * runs given async generator function, `yield* result` returns inner value if ok,
+   * otherwise stops the generator and returns the Err.
+   * both Result and AsyncResult can be delegated by yield*.
+   * E type is the union of all error types delegated by yield*,
+   * except Defect which is carried as is.
+   * @param f
+   */
+  static gen<T, Y extends Err<unknown> = never>(
+    f: () => AsyncGenerator<Y, T>,
+  ): AsyncResult<T, Exclude<InferErr<Y>, Defect>> {
+    return new AsyncResult<T, Exclude<InferErr<Y>, Defect>>(
+      (async () => {
+        const generator = f();
+        const step = await generator.next();
+        if (step.done) {
+          return ok(step.value);
+        }
+        await generator.return(undefined as unknown as T);
+        return step.value as Err<Exclude<InferErr<Y>, Defect> | Defect, T>;
+      })(),
+    );
+  }
+
+  /**
+   * runs given results concurrently,
+   * returns Ok with an array or a record of inner values if all results are ok,
+   * otherwise the first Err to be settled without waiting for others.
+   * keeps each type of tuple elements and record properties.
+   * @param results
+   */
+  static all<R extends Shape<AnyAsyncResult>>(
+    results: R,
+  ): AsyncResult<OkShape<R>, InferErr<Settled<ShapeValue<R>>>> {
+    const promises = valuesOf(results).map(promiseOf);
+    return new AsyncResult(
+      new Promise((resolve, reject) => {
+        const values: unknown[] = [];
+        let remaining = promises.length;
+        const resolveOk = () =>
+          resolve(ok(rebuild(results, values) as OkShape<R>));
+        if (remaining === 0) {
+          resolveOk();
+        }
+        promises.forEach((promise, i) =>
+          promise.then((r) => {
+            if (r.isErr) {
+              resolve(r as Err<InferErr<Settled<ShapeValue<R>>>>);
+              return;
+            }
+            values[i] = r.value;
+            remaining -= 1;
+            if (remaining === 0) {
+              resolveOk();
+            }
+          }, reject),
+        );
+      }),
+    );
+  }
+
+  /**
+   * runs given results concurrently and waits for all of them,
+   * returns Ok with an array or a record of settled results including Err<Defect>.
+   * keeps each type of tuple elements and record properties.
+   * @param results
+   */
+  static allSettled<R extends Shape<AnyAsyncResult>>(
+    results: R,
+  ): AsyncResult<OutcomeShape<R>, never> {
+    return new AsyncResult<OutcomeShape<R>, never>(
+      Promise.all(valuesOf(results).map(promiseOf)).then((settled) =>
+        ok(rebuild(results, settled) as OutcomeShape<R>),
+      ),
+    );
+  }
+
+  /**
+   * runs given results concurrently,
+   * returns the first result to be settled whether ok or err.
+   * never settles if given results are empty.
+   * @param results
+   */
+  static race<R extends readonly AnyAsyncResult[] | []>(
+    results: R,
+  ): AsyncResult<InferOk<Settled<R[number]>>, InferErr<Settled<R[number]>>> {
+    return new AsyncResult(
+      Promise.race(results.map(promiseOf)) as Promise<
+        Result<
+          InferOk<Settled<R[number]>>,
+          InferErr<Settled<R[number]>> | Defect
+        >
+      >,
+    );
+  }
+
+  /**
+   * runs given results concurrently,
+   * returns the first Ok to be settled without waiting for others,
+   * otherwise Err with an array of all errors, or the first Err<Defect>.
+   * keeps each type of tuple elements.
+   * @param results
+   */
+  static any<R extends readonly AnyAsyncResult[] | []>(
+    results: R,
+  ): AsyncResult<InferOk<Settled<R[number]>>, ErrShape<R>> {
+    const promises = results.map(promiseOf);
+    return new AsyncResult(
+      new Promise((resolve, reject) => {
+        const errors: unknown[] = [];
+        let remaining = promises.length;
+        if (remaining === 0) {
+          resolve(err(errors as ErrShape<R>));
+        }
+        promises.forEach((promise, i) =>
+          promise.then((r) => {
+            if (r.isOk) {
+              resolve(r as Ok<InferOk<Settled<R[number]>>>);
+              return;
+            }
+            if (isDefect(r)) {
+              resolve(r.never());
+              return;
+            }
+            errors[i] = r.error;
+            remaining -= 1;
+            if (remaining === 0) {
+              resolve(err(errors as ErrShape<R>));
+            }
+          }, reject),
+        );
+      }),
+    );
+  }
+
+  /**
+   * runs given function for each item with limited concurrency,
+   * returns Ok with an array of inner values in order of items if all results are ok,
+   * otherwise the first Err, or Err with an array of all errors if failFast is false.
+   * Err<Defect> stops it even if failFast is false.
+   * @param items
+   * @param f
+   * @param options
+   */
+  static traverse<T, U, E>(
+    items: Iterable<T>,
+    f: (
+      item: T,
+      index: number,
+    ) => AsyncResult<U, E> | Result<U, E> | Promise<Result<U, E>>,
+    options?: TraverseOptions & { failFast?: true },
+  ): AsyncResult<U[], E>;
+  static traverse<T, U, E>(
+    items: Iterable<T>,
+    f: (
+      item: T,
+      index: number,
+    ) => AsyncResult<U, E> | Result<U, E> | Promise<Result<U, E>>,
+    options: TraverseOptions & { failFast: false },
+  ): AsyncResult<U[], E[]>;
+  static traverse<T, U, E>(
+    items: Iterable<T>,
+    f: (
+      item: T,
+      index: number,
+    ) => AsyncResult<U, E> | Result<U, E> | Promise<Result<U, E>>,
+    options: TraverseOptions,
+  ): AsyncResult<U[], E | E[]>;
+  static traverse<T, U, E>(
+    items: Iterable<T>,
+    f: (
+      item: T,
+      index: number,
+    ) => AsyncResult<U, E> | Result<U, E> | Promise<Result<U, E>>,
+    options: TraverseOptions = {},
+  ): AsyncResult<U[], E | E[]> {
+    const { concurrency = Infinity, failFast = true } = options;
+    if (!(concurrency >= 1)) {
+      throw new RangeError('concurrency must be 1 or greater');
+    }
+    const list = Array.from(items);
+    return new AsyncResult<U[], E | E[]>(
+      new Promise((resolve, reject) => {
+        const values: U[] = new Array(list.length);
+        const errors: E[] = [];
+        let next = 0;
+        let running = 0;
+        let settled = false;
+        const finish = () => {
+          settled = true;
+          // errors are sparse in order of items
+          const collected = errors.filter(() => true);
+          resolve(collected.length > 0 ? err(collected) : ok(values));
+        };
+        const launch = () => {
+          while (!settled && running < concurrency && next < list.length) {
+            const index = next;
+            next += 1;
+            running += 1;
+            (async () => promiseOf(f(list[index], index)))().then((r) => {
+              running -= 1;
+              if (settled) {
+                return;
+              }
+              if (r.isOk) {
+                values[index] = r.value;
+              } else if (failFast || isDefect(r)) {
+                settled = true;
+                resolve(r.never());
+                return;
+              } else {
+                errors[index] = r.error as E;
+              }
+              if (next === list.length && running === 0) {
+                finish();
+              } else {
+                launch();
+              }
+            }, reject);
+          }
+        };
+        if (list.length === 0) {
+          finish();
+        }
+        launch();
+      }),
+    );
+  }
+
+  /**
+   * runs given function for each item one by one,
+   * returns Ok with an array of inner values in order of items if all results are ok,
+   * otherwise the first Err, without running the rest.
+   * @param items
+   * @param f
+   */
+  static traverseSeq<T, U, E>(
+    items: Iterable<T>,
+    f: (
+      item: T,
+      index: number,
+    ) => AsyncResult<U, E> | Result<U, E> | Promise<Result<U, E>>,
+  ): AsyncResult<U[], E> {
+    const list = Array.from(items);
+    return new AsyncResult<U[], E>(
+      (async () => {
+        const values: U[] = [];
+        for (const [index, item] of list.entries()) {
+          const r = await promiseOf(f(item, index));
+          if (r.isErr) {
+            return r.never();
+          }
+          values.push(r.value);
+        }
+        return ok(values);
+      })(),
+    );
+  }
+
+  /**
+   * runs the result created by given factory,
+   * and reruns it while it is err, until attempts run out or shouldRetry returns false.
+   * returns Ok if any attempt is ok,
+   * otherwise Err with the last error and the number of attempts.
+   * @param factory
+   * @param options
+   */
+  static retry<T, E>(
+    factory: () => AsyncResult<T, E> | Result<T, E> | Promise<Result<T, E>>,
+    options: RetryOptions<E>,
+  ): AsyncResult<T, RetryError<E>> {
+    const {
+      attempts,
+      backoff = 'fixed',
+      delay = 0,
+      maxDelay = Infinity,
+      jitter = false,
+      shouldRetry = () => true,
+      random = Math.random,
+    } = options;
+    const wait = options.sleep ?? sleep;
+    if (!(attempts >= 1)) {
+      throw new RangeError('attempts must be 1 or greater');
+    }
+    const waitTime = (attempt: number) => {
+      const base =
+        backoff === 'exponential' ? delay * 2 ** (attempt - 1) : delay;
+      const capped = Math.min(base, maxDelay);
+      return jitter ? random() * capped : capped;
+    };
+    return new AsyncResult<T, RetryError<E>>(
+      (async () => {
+        for (let attempt = 1; ; attempt += 1) {
+          // exceptions thrown by factory resolve to Err<Defect> on every attempt
+          const r = await promiseOf(factory());
+          if (r.isOk) {
+            return ok(r.value);
+          }
+          if (isDefect(r)) {
+            return r.never();
+          }
+          // E never contains Defect, it is the separate state of AsyncResult
+          const error = r.error as E;
+          if (attempt >= attempts || !shouldRetry(error, attempt)) {
+            return err({ error, attempts: attempt });
+          }
+          await wait(waitTime(attempt));
+        }
+      })(),
+    );
+  }
 }
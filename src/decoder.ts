@@ -0,0 +1,171 @@
+import { err, ok, Result } from './result';
+import { none, Option, some } from './option';
+
+/**
+ * an error found by Decoder, with JSON path to the invalid value like $.items[0].name
+ */
+export interface DecodeError {
+  path: string;
+  message: string;
+}
+
+/**
+ * extracts decoded value type from given decoder type
+ */
+export type InferDecoded<D> = D extends Decoder<infer T> ? T : never;
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${path}[${key}]`;
+  }
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+function fail(path: string, message: string): Result<never, DecodeError[]> {
+  return err([{ path, message }]);
+}
+
+/**
+ * a class for validating unknown input and converting it into Result.
+ * all errors are collected instead of stopping at the first one.
+ */
+export class Decoder<T> {
+  constructor(
+    private readonly run: (
+      input: unknown,
+      path: string,
+    ) => Result<T, DecodeError[]>,
+  ) {}
+
+  /**
+   * returns Ok with decoded value if given input is valid,
+   * otherwise Err with all errors found.
+   * bound to the decoder, can be passed to andThen() directly
+   * @param input
+   */
+  readonly decode = (input: unknown): Result<T, DecodeError[]> =>
+    this.run(input, '$');
+
+  /**
+   * returns a decoder also checks decoded value with given predicate,
+   * fails with given message if it returns false
+   * @param predicate
+   * @param message
+   */
+  refine<U extends T>(
+    predicate: (value: T) => value is U,
+    message: string,
+  ): Decoder<U>;
+  refine(predicate: (value: T) => boolean, message: string): Decoder<T>;
+  refine(predicate: (value: T) => boolean, message: string): Decoder<T> {
+    return new Decoder((input, path) =>
+      this.run(input, path).andThen((value) =>
+        predicate(value) ? ok(value) : fail(path, message),
+      ),
+    );
+  }
+
+  /**
+   * returns a decoder transforms decoded value with given function
+   * @param transform
+   */
+  map<U>(transform: (value: T) => U): Decoder<U> {
+    return new Decoder((input, path) => this.run(input, path).map(transform));
+  }
+
+  /**
+   * decodes a string
+   */
+  static readonly string: Decoder<string> = new Decoder((input, path) =>
+    typeof input === 'string' ? ok(input) : fail(path, 'expected string'),
+  );
+
+  /**
+   * decodes a number, except NaN
+   */
+  static readonly number: Decoder<number> = new Decoder((input, path) =>
+    typeof input === 'number' && !Number.isNaN(input)
+      ? ok(input)
+      : fail(path, 'expected number'),
+  );
+
+  /**
+   * decodes a boolean
+   */
+  static readonly boolean: Decoder<boolean> = new Decoder((input, path) =>
+    typeof input === 'boolean' ? ok(input) : fail(path, 'expected boolean'),
+  );
+
+  /**
+   * returns a decoder for an object, decodes each property with given decoders.
+   * properties not in the shape are dropped
+   * @param shape
+   */
+  static object<S extends { [key: string]: Decoder<unknown> }>(
+    shape: S,
+  ): Decoder<{ [K in keyof S]: InferDecoded<S[K]> }> {
+    return new Decoder((input, path) => {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        return fail(path, 'expected object');
+      }
+      const record = input as { [key: string]: unknown };
+      const fields = Object.fromEntries(
+        Object.entries(shape).map(([key, decoder]) => [
+          key,
+          decoder.run(record[key], childPath(path, key)),
+        ]),
+      );
+      return Result.collectErrors(fields)
+        .map((value) => value as { [K in keyof S]: InferDecoded<S[K]> })
+        .mapErr((errors) => errors.flat());
+    });
+  }
+
+  /**
+   * returns a decoder for an array, decodes each item with given decoder
+   * @param item
+   */
+  static array<T>(item: Decoder<T>): Decoder<T[]> {
+    return new Decoder((input, path) => {
+      if (!Array.isArray(input)) {
+        return fail(path, 'expected array');
+      }
+      return Result.collectErrors(
+        input.map((value, i) => item.run(value, childPath(path, i))),
+      )
+        .map((values) => values as T[])
+        .mapErr((errors) => errors.flat());
+    });
+  }
+
+  /**
+   * returns a decoder tries given decoders in order and returns the first success,
+   * otherwise errors of all decoders.
+   * requires at least one decoder, since no decoder would fail without errors
+   * @param decoders
+   */
+  static union<D extends [Decoder<unknown>, ...Decoder<unknown>[]]>(
+    ...decoders: D
+  ): Decoder<InferDecoded<D[number]>> {
+    return new Decoder((input, path) =>
+      Result.any(decoders.map((decoder) => decoder.run(input, path)))
+        .map((value) => value as InferDecoded<D[number]>)
+        .mapErr((errors) => errors.flat()),
+    );
+  }
+
+  /**
+   * returns a decoder gives none for undefined or null,
+   * otherwise some with the value decoded by given decoder
+   * @param decoder
+   */
+  static optional<T>(decoder: Decoder<T>): Decoder<Option<T>> {
+    return new Decoder<Option<T>>((input, path) =>
+      input === undefined || input === null
+        ? ok(none())
+        : decoder.run(input, path).map((value) => some(value)),
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * default equality of inner values,
+ * uses equals() of the value if it has, e.g. nested results, otherwise Object.is
+ * @param a
+ * @param b
+ */
+export function equal(a: unknown, b: unknown): boolean {
+  const equals = (a as { equals?: unknown } | null | undefined)?.equals;
+  return typeof equals === 'function' ? equals.call(a, b) : Object.is(a, b);
+}
+
+/**
+ * default ordering of inner values,
+ * uses compare() of the value if it has, e.g. nested results, otherwise < and >
+ * @param a
+ * @param b
+ */
+export function compare(a: unknown, b: unknown): number {
+  const compareTo = (a as { compare?: unknown } | null | undefined)?.compare;
+  if (typeof compareTo === 'function') {
+    return compareTo.call(a, b);
+  }
+  const [x, y] = [a, b] as [number, number];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+/**
+ * default hash of inner values, consistent with equal().
+ * uses hash() of the value if it has, e.g. nested results,
+ * otherwise hash of the string or JSON representation
+ * @param value
+ */
+export function hashOf(value: unknown): number {
+  const hash = (value as { hash?: unknown } | null | undefined)?.hash;
+  if (typeof hash === 'function') {
+    return hash.call(value);
+  }
+  if (typeof value === 'object' && value !== null) {
+    try {
+      return hashString(JSON.stringify(value) ?? '');
+    } catch {
+      return 0;
+    }
+  }
+  return hashString(`${typeof value}:${String(value)}`);
+}
+
+/**
+ * returns 32-bit FNV-1a hash of given string
+ * @param text
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * returns hash of given hash tagged with given seed, e.g. to tell Ok from Err
+ * @param seed
+ * @param hash
+ */
+export function combineHash(seed: number, hash: number): number {
+  return (Math.imul(seed, 31) + hash) >>> 0;
+}
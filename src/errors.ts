@@ -0,0 +1,126 @@
+const resultErrorBrand = Symbol.for('@reismannnr2/async-result/ResultError');
+
+/**
+ * returns readable description of given value for error messages
+ * @param value
+ */
+export function describe(value: unknown): string {
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`;
+  }
+  if (typeof value === 'function' || typeof value === 'symbol') {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * base class of every error thrown by this library
+ */
+export class ResultError extends Error {
+  readonly [resultErrorBrand] = true;
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    if (options && 'cause' in options && !('cause' in this)) {
+      // runtimes before ES2022 ignore the options of Error
+      Object.defineProperty(this, 'cause', {
+        value: options.cause,
+        writable: true,
+        configurable: true,
+      });
+    }
+    this.name = new.target.name;
+  }
+
+  /**
+   * returns whether given value is thrown by this library.
+   * works even across multiple copies of this library, unlike instanceof
+   * @param value
+   */
+  static isResultError(value: unknown): value is ResultError {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      (value as { [resultErrorBrand]?: unknown })[resultErrorBrand] === true
+    );
+  }
+}
+
+/**
+ * thrown when unwrapping Err, or unwrapping error from Ok.
+ * cause is the inner error of Err or the inner value of Ok
+ */
+export class UnwrapError extends ResultError {
+  constructor(message: string, cause: unknown) {
+    super(`${message}: ${describe(cause)}`, { cause });
+  }
+}
+
+/**
+ * thrown when unwrapping None
+ */
+export class UnwrapNoneError extends ResultError {
+  constructor(message = 'Cannot unwrap None') {
+    super(message);
+  }
+}
+
+/**
+ * unexpected exception thrown in callbacks of AsyncResult.
+ * AsyncResult never rejects, it resolves to Result<T, E | Defect> instead.
+ * callbacks for expected errors E are skipped for Err<Defect>,
+ * tagged with type 'defect' to be handled by matchErr() and catchTag()
+ */
+export class Defect extends ResultError {
+  readonly type = 'defect';
+  constructor(cause: unknown) {
+    super(`Unexpected exception: ${describe(cause)}`, { cause });
+  }
+
+  /**
+   * returns whether given value is a Defect.
+   * works even across multiple copies of this library, unlike instanceof
+   * @param value
+   */
+  static isDefect(value: unknown): value is Defect {
+    return (
+      ResultError.isResultError(value) &&
+      (value as { type?: unknown }).type === 'defect'
+    );
+  }
+}
+
+let defectHook: ((defect: Defect) => void) | undefined;
+
+/**
+ * registers given function called with every Defect created by this library,
+ * e.g. for reporting bugs. only the last one is kept, undefined removes it.
+ * this is the only way to observe defects of AsyncOption, which resolves to none.
+ * exceptions thrown by it are ignored
+ * @param hook
+ */
+export function onDefect(hook: ((defect: Defect) => void) | undefined): void {
+  defectHook = hook;
+}
+
+/**
+ * returns Defect caused by given unexpected exception and reports it to the hook,
+ * or just given one if it is already a Defect
+ * @param cause
+ */
+export function defectOf(cause: unknown): Defect {
+  if (Defect.isDefect(cause)) {
+    return cause;
+  }
+  const defect = new Defect(cause);
+  try {
+    defectHook?.(defect);
+  } catch {
+    // the hook must not turn a Defect into another exception
+  }
+  return defect;
+}
@@ -0,0 +1,114 @@
+import { none, Option, some } from './option';
+import { err, ok, Result } from './result';
+
+/**
+ * returns some of the value for given key if the map has it,
+ * otherwise none. works with WeakMap as well
+ * @param map
+ * @param key
+ */
+export function getOption<K, V>(
+  map: Pick<ReadonlyMap<K, V>, 'has' | 'get'>,
+  key: K,
+): Option<V> {
+  return map.has(key) ? some(map.get(key) as V) : none();
+}
+
+/**
+ * returns some of the element at given index, counting back from the end if negative,
+ * otherwise none if out of range or not an integer
+ * @param array
+ * @param index
+ */
+export function at<T>(array: ArrayLike<T>, index: number): Option<T> {
+  const i = index < 0 ? array.length + index : index;
+  return Number.isInteger(i) && i >= 0 && i < array.length
+    ? some(array[i])
+    : none();
+}
+
+/**
+ * returns some of the first element satisfying given predicate,
+ * otherwise none.
+ * narrows the type if the predicate is a type guard
+ * @param array
+ * @param predicate
+ */
+export function findOption<T, U extends T = T>(
+  array: readonly T[],
+  predicate:
+    | ((value: T, index: number) => value is U)
+    | ((value: T, index: number) => boolean),
+): Option<U> {
+  for (let i = 0; i < array.length; i++) {
+    if (predicate(array[i], i)) {
+      return some(array[i] as U);
+    }
+  }
+  return none();
+}
+
+/**
+ * returns some of the last element satisfying given predicate,
+ * otherwise none.
+ * narrows the type if the predicate is a type guard
+ * @param array
+ * @param predicate
+ */
+export function findLastOption<T, U extends T = T>(
+  array: readonly T[],
+  predicate:
+    | ((value: T, index: number) => value is U)
+    | ((value: T, index: number) => boolean),
+): Option<U> {
+  for (let i = array.length - 1; i >= 0; i--) {
+    if (predicate(array[i], i)) {
+      return some(array[i] as U);
+    }
+  }
+  return none();
+}
+
+/**
+ * returns some of the integer parsed same as global parseInt,
+ * otherwise none instead of NaN.
+ * radix is 10 by default, unlike global parseInt guessing it
+ * @param text
+ * @param radix
+ */
+export function parseInt(text: string, radix = 10): Option<number> {
+  return Option.fromPredicate(
+    Number.parseInt(text, radix),
+    (n) => !Number.isNaN(n),
+  );
+}
+
+/**
+ * returns some of the number parsed same as global parseFloat,
+ * otherwise none instead of NaN
+ * @param text
+ */
+export function parseFloat(text: string): Option<number> {
+  return Option.fromPredicate(Number.parseFloat(text), (n) => !Number.isNaN(n));
+}
+
+/**
+ * returns Ok with the value parsed by JSON.parse,
+ * otherwise Err<SyntaxError> if given text is not valid JSON.
+ * exceptions thrown by the reviver are not caught unless they are SyntaxError
+ * @param text
+ * @param reviver passed to JSON.parse, e.g. jsonReviver to restore results and options
+ */
+export function parseJson(
+  text: string,
+  reviver?: (key: string, value: unknown) => unknown,
+): Result<unknown, SyntaxError> {
+  try {
+    return ok(JSON.parse(text, reviver));
+  } catch (e) {
+    if (e instanceof SyntaxError) {
+      return err(e);
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,36 @@
+import { Result } from './result';
+import { Option } from './option';
+
+/**
+ * returns true if given json is an object with given tag,
+ * and has no other keys than tag and given optional keys
+ * @param json
+ * @param tag
+ * @param keys
+ */
+export function isTagged<K extends string>(
+  json: unknown,
+  tag: string,
+  ...keys: K[]
+): json is { tag: string } & { [key in K]?: unknown } {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    return false;
+  }
+  const allowed: string[] = ['tag', ...keys];
+  return (
+    (json as { tag?: unknown }).tag === tag &&
+    Object.keys(json).every((key) => allowed.includes(key))
+  );
+}
+
+/**
+ * reviver for JSON.parse, restores results and options serialized by toJSON(),
+ * anywhere in nested payload
+ * @param key
+ * @param value
+ */
+export function jsonReviver(key: string, value: unknown): unknown {
+  return Result.fromJSON(value)
+    .orElse(() => Option.fromJSON(value))
+    .unwrapOr(value);
+}
@@ -0,0 +1,182 @@
+import { Result } from './result';
+import { Option } from './option';
+
+type Variant = 'Ok' | 'Err' | 'Some' | 'None';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    interface Matchers<R> {
+      /**
+       * checks the received is Ok, with equal inner value if given
+       */
+      toBeOk(value?: unknown): R;
+      /**
+       * checks the received is Err, with equal inner error if given
+       */
+      toBeErr(error?: unknown): R;
+      /**
+       * checks the received is Some, with equal inner value if given
+       */
+      toBeSome(value?: unknown): R;
+      /**
+       * checks the received is None
+       */
+      toBeNone(): R;
+      /**
+       * checks the received AsyncResult or promise resolves to Ok, with equal inner value if given
+       */
+      toResolveOk(value?: unknown): Promise<R>;
+      /**
+       * checks the received AsyncResult or promise resolves to Err, with equal inner error if given
+       */
+      toResolveErr(error?: unknown): Promise<R>;
+      /**
+       * checks the received AsyncOption or promise resolves to Some, with equal inner value if given
+       */
+      toResolveSome(value?: unknown): Promise<R>;
+      /**
+       * checks the received AsyncOption or promise resolves to None
+       */
+      toResolveNone(): Promise<R>;
+    }
+  }
+}
+
+/**
+ * returns the variant and the inner value of given result or option,
+ * otherwise undefined
+ * @param received
+ */
+function variantOf(
+  received: unknown,
+): { variant: Variant; inner?: unknown } | undefined {
+  if (typeof received !== 'object' || received === null) {
+    return undefined;
+  }
+  const r = received as Partial<Result<unknown, unknown>>;
+  if (typeof r.isOk === 'boolean' && typeof r.isErr === 'boolean') {
+    const result = r as Result<unknown, unknown>;
+    return result.isOk
+      ? { variant: 'Ok', inner: result.value }
+      : { variant: 'Err', inner: result.error };
+  }
+  const o = received as Partial<Option<unknown>>;
+  if (typeof o.isSome === 'boolean' && typeof o.isNone === 'boolean') {
+    const option = o as Option<unknown>;
+    return option.isSome
+      ? { variant: 'Some', inner: option.value }
+      : { variant: 'None' };
+  }
+  return undefined;
+}
+
+/**
+ * checks given value is the variant, and the inner value equals to expected one if given
+ */
+function matchVariant(
+  context: jest.MatcherContext,
+  name: string,
+  received: unknown,
+  variant: Variant,
+  expected: unknown[],
+): jest.CustomMatcherResult {
+  const { utils, isNot, promise } = context;
+  const actual = variantOf(received);
+  const sameVariant = actual?.variant === variant;
+  const pass =
+    sameVariant &&
+    (expected.length === 0 || context.equals(actual?.inner, expected[0]));
+  const print = (
+    v: { variant: Variant; inner?: unknown },
+    color: typeof utils.printReceived,
+  ) => (v.variant === 'None' ? 'None' : `${v.variant}(${color(v.inner)})`);
+  const message = () => {
+    const hint = utils.matcherHint(
+      name,
+      undefined,
+      expected.length === 0 ? '' : 'expected',
+      { isNot, promise },
+    );
+    const expectedText =
+      expected.length === 0
+        ? variant
+        : print({ variant, inner: expected[0] }, utils.printExpected);
+    const receivedText = actual
+      ? print(actual, utils.printReceived)
+      : `${utils.printReceived(received)}, neither Result nor Option`;
+    const diff =
+      sameVariant && expected.length !== 0 && !isNot
+        ? utils.diff(expected[0], actual?.inner)
+        : null;
+    return [
+      hint,
+      '',
+      `Expected: ${isNot ? 'not ' : ''}${expectedText}`,
+      `Received: ${receivedText}`,
+      ...(diff ? ['', diff] : []),
+    ].join('\n');
+  };
+  return { pass, message };
+}
+
+/**
+ * jest matchers for Result, Option and their async variants,
+ * register them by expect.extend(resultMatchers)
+ */
+export const resultMatchers = {
+  toBeOk(
+    this: jest.MatcherContext,
+    received: unknown,
+    ...value: unknown[]
+  ): jest.CustomMatcherResult {
+    return matchVariant(this, 'toBeOk', received, 'Ok', value);
+  },
+  toBeErr(
+    this: jest.MatcherContext,
+    received: unknown,
+    ...error: unknown[]
+  ): jest.CustomMatcherResult {
+    return matchVariant(this, 'toBeErr', received, 'Err', error);
+  },
+  toBeSome(
+    this: jest.MatcherContext,
+    received: unknown,
+    ...value: unknown[]
+  ): jest.CustomMatcherResult {
+    return matchVariant(this, 'toBeSome', received, 'Some', value);
+  },
+  toBeNone(
+    this: jest.MatcherContext,
+    received: unknown,
+  ): jest.CustomMatcherResult {
+    return matchVariant(this, 'toBeNone', received, 'None', []);
+  },
+  async toResolveOk(
+    this: jest.MatcherContext,
+    received: unknown,
+    ...value: unknown[]
+  ): Promise<jest.CustomMatcherResult> {
+    return matchVariant(this, 'toResolveOk', await received, 'Ok', value);
+  },
+  async toResolveErr(
+    this: jest.MatcherContext,
+    received: unknown,
+    ...error: unknown[]
+  ): Promise<jest.CustomMatcherResult> {
+    return matchVariant(this, 'toResolveErr', await received, 'Err', error);
+  },
+  async toResolveSome(
+    this: jest.MatcherContext,
+    received: unknown,
+    ...value: unknown[]
+  ): Promise<jest.CustomMatcherResult> {
+    return matchVariant(this, 'toResolveSome', await received, 'Some', value);
+  },
+  async toResolveNone(
+    this: jest.MatcherContext,
+    received: unknown,
+  ): Promise<jest.CustomMatcherResult> {
+    return matchVariant(this, 'toResolveNone', await received, 'None', []);
+  },
+};
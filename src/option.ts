@@ -1,11 +1,20 @@
 import { AsyncOption } from 'src/async-option';
 import { err, Ok, ok, Result } from 'src/result';
+import { rebuild, Shape, valuesOf } from './shape';
+import { isTagged } from './json';
+import { UnwrapNoneError } from './errors';
+import { combineHash, compare, equal, hashOf } from './equality';
 
 export interface OptionMatcher<T, R> {
   some: (value: T) => R;
   none: () => R;
 }
 
+/**
+ * serialized format of Option
+ */
+export type OptionJSON<T> = { tag: 'some'; value: T } | { tag: 'none' };
+
 interface OptionBase<T> {
   /**
    * currently some or not
@@ -16,13 +25,23 @@ interface OptionBase<T> {
    */
   isNone: boolean;
 
-  [Symbol.iterator](): Iterator<T>;
+  /**
+   * returns the inner value if some when delegated by yield*,
+   * otherwise yields none to stop Option.gen
+   */
+  [Symbol.iterator](): Generator<None, T>;
 
   /**
-   * returns the inner value if some, otherwise throws
+   * returns the inner value if some, otherwise throws UnwrapNoneError
    */
   unwrap(): T;
 
+  /**
+   * returns the inner value if some, otherwise throws UnwrapNoneError with given message
+   * @param message
+   */
+  expect(message: string): T;
+
   /**
    * returns the inner value if some, otherwise the given alternate
    * @param alternate
@@ -128,12 +147,74 @@ interface OptionBase<T> {
     other: Option<U>,
     transform: (self: T, other: U) => R,
   ): Option<R>;
+  /**
+   * calls given function with the inner value if some,
+   * and returns just this.
+   * if the function throws, it is not caught, same as map()
+   * @param f
+   */
+  inspect(f: (value: T) => void): Option<T>;
   /**
    * returns Ok<T> if some,
    * otherwise Err<E> created by given function
    * @param err
    */
   toResult<E>(err: () => E): Result<T, E>;
+
+  /**
+   * returns the inner option if some,
+   * otherwise none.
+   * callable only when the inner value is an option
+   */
+  flatten<U>(this: Option<Option<U>>): Option<U>;
+
+  /**
+   * converts Option<Result<U, E>> into Result<Option<U>, E>,
+   * returns Ok with some if some with Ok, the inner Err if some with Err,
+   * otherwise Ok with none.
+   * callable only when the inner value is a result
+   */
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E>;
+
+  /**
+   * returns tagged plain object for JSON.stringify(),
+   * can be restored by Option.fromJSON()
+   */
+  toJSON(): OptionJSON<T>;
+
+  /**
+   * returns the inner value if some, otherwise null
+   */
+  toNullable(): T | null;
+
+  /**
+   * returns the inner value if some, otherwise undefined
+   */
+  toUndefined(): T | undefined;
+
+  /**
+   * returns whether both are none, or both are some with equal values.
+   * compared by equals() of them if they have, otherwise Object.is by default
+   * @param other
+   * @param eqValue
+   */
+  equals(other: Option<T>, eqValue?: (a: T, b: T) => boolean): boolean;
+
+  /**
+   * returns negative if this is less than other, positive if greater, otherwise 0.
+   * none is less than some, both some are ordered by inner values,
+   * compare() of them or < and > by default
+   * @param other
+   * @param compareValue
+   */
+  compare(other: Option<T>, compareValue?: (a: T, b: T) => number): number;
+
+  /**
+   * returns hash consistent with equals(), for ResultMap.
+   * pass a hash function consistent with custom equality if used
+   * @param hashValue
+   */
+  hash(hashValue?: (value: T) => number): number;
 }
 
 interface PromiseOption<T> {
@@ -205,6 +286,12 @@ interface PromiseOption<T> {
    * @param createError
    */
   toResultAsync<E>(createError: () => E | Promise<E>): Promise<Result<T, E>>;
+  /**
+   * returns a Promise resolves to this after calling given function with the inner value and waiting for it if some.
+   * if the function throws, the Promise is rejected, same as mapAsync()
+   * @param f
+   */
+  tap(f: (value: T) => unknown): Promise<Option<T>>;
   /**
    * returns an async option contains a Promise that resolves to this
    */
@@ -213,16 +300,43 @@ interface PromiseOption<T> {
 
 export type Option<T> = Some<T> | None<T>;
 export type { Some, None };
+
+/**
+ * any option, without giving contextual value type to some() and none()
+ */
+export type AnyOption = Pick<Option<unknown>, 'isSome' | 'isNone'>;
+
+/**
+ * extracts inner value type from given option type, distributes over union
+ */
+export type InferSome<O> = O extends Some<infer T>
+  ? T
+  : O extends None<infer T>
+  ? T
+  : never;
+
 class Some<T> implements OptionBase<T>, PromiseOption<T> {
   isSome: true = true;
   isNone: false = false;
-  *[Symbol.iterator](): Iterator<T> {
-    yield this.value;
+  [Symbol.iterator](): Generator<None, T> {
+    // yields nothing, Option.gen just receives the inner value
+    const generator: Generator<None, T> = {
+      next: () => ({ done: true, value: this.value }),
+      return: (value) => ({ done: true, value }),
+      throw: (e) => {
+        throw e;
+      },
+      [Symbol.iterator]: () => generator,
+    };
+    return generator;
   }
   constructor(readonly value: T) {}
   unwrap(): T {
     return this.value;
   }
+  expect(message: string): T {
+    return this.value;
+  }
   unwrapOr<U = T>(alternate: U): T {
     return this.value;
   }
@@ -277,6 +391,37 @@ class Some<T> implements OptionBase<T>, PromiseOption<T> {
   toResult<E>(err: () => E): Ok<T, E> {
     return ok(this.value);
   }
+  flatten<U>(this: Option<Option<U>>): Option<U> {
+    return (this as Some<Option<U>>).value;
+  }
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+    return (this as Some<Result<U, E>>).value.map((value) => some(value));
+  }
+  toJSON(): OptionJSON<T> {
+    return { tag: 'some', value: this.value };
+  }
+  toNullable(): T {
+    return this.value;
+  }
+  toUndefined(): T {
+    return this.value;
+  }
+  equals(other: Option<T>, eqValue: (a: T, b: T) => boolean = equal): boolean {
+    return other.isSome && eqValue(this.value, other.value);
+  }
+  compare(
+    other: Option<T>,
+    compareValue: (a: T, b: T) => number = compare,
+  ): number {
+    return other.isSome ? compareValue(this.value, other.value) : 1;
+  }
+  hash(hashValue: (value: T) => number = hashOf): number {
+    return combineHash(3, hashValue(this.value));
+  }
+  inspect(f: (value: T) => void): Some<T> {
+    f(this.value);
+    return this;
+  }
 
   async testAsync(
     predicate: (value: T) => boolean | Promise<boolean>,
@@ -325,6 +470,11 @@ class Some<T> implements OptionBase<T>, PromiseOption<T> {
     return ok(this.value);
   }
 
+  async tap(f: (value: T) => unknown): Promise<Some<T>> {
+    await f(this.value);
+    return this;
+  }
+
   toAsync(): AsyncOption<T> {
     return new AsyncOption(Promise.resolve(this));
   }
@@ -342,10 +492,17 @@ class None<T = never> implements OptionBase<T>, PromiseOption<T> {
   isSome: false = false;
   isNone: true = true;
 
-  *[Symbol.iterator](): Iterator<never> {}
+  *[Symbol.iterator](): Generator<None, T> {
+    yield none_;
+    // Option.gen never resumes the generator after none is yielded
+    return undefined as unknown as T;
+  }
 
   unwrap(): never {
-    throw new Error('Cannot unwrap None');
+    throw new UnwrapNoneError();
+  }
+  expect(message: string): never {
+    throw new UnwrapNoneError(message);
   }
   unwrapOr<U = T>(alternate: U): U {
     return alternate;
@@ -399,6 +556,33 @@ class None<T = never> implements OptionBase<T>, PromiseOption<T> {
   toResult<E>(createError: () => E): Result<T, E> {
     return err(createError());
   }
+  flatten<U>(this: Option<Option<U>>): Option<U> {
+    return none_;
+  }
+  transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+    return ok(none_);
+  }
+  toJSON(): OptionJSON<T> {
+    return { tag: 'none' };
+  }
+  toNullable(): null {
+    return null;
+  }
+  toUndefined(): undefined {
+    return undefined;
+  }
+  equals(other: Option<T>, eqValue?: (a: T, b: T) => boolean): boolean {
+    return other.isNone;
+  }
+  compare(other: Option<T>, compareValue?: (a: T, b: T) => number): number {
+    return other.isNone ? 0 : -1;
+  }
+  hash(hashValue?: (value: T) => number): number {
+    return combineHash(4, 0);
+  }
+  inspect(f: (value: T) => void): None<T> {
+    return this;
+  }
 
   async testAsync(
     predicate: (value: T) => boolean | Promise<boolean>,
@@ -440,6 +624,10 @@ class None<T = never> implements OptionBase<T>, PromiseOption<T> {
     return err(await createError());
   }
 
+  async tap(f: (value: T) => unknown): Promise<None<T>> {
+    return this;
+  }
+
   toAsync(): AsyncOption<T> {
     return new AsyncOption(Promise.resolve(this));
   }
@@ -461,3 +649,182 @@ const none_ = new None();
 export function none<T = never>(): None<T> {
   return none_;
 }
+
+type SomeShape<R> = { -readonly [K in keyof R]: InferSome<R[K]> };
+
+/**
+ * falsy values except NaN, which has no literal type
+ */
+export type Falsy = false | 0 | 0n | '' | null | undefined;
+
+type Depth = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+/**
+ * union of key tuples reaching a nested value of T, up to 8 keys.
+ * arrays are indexed by number, primitives and functions are not traversed
+ */
+export type KeyPaths<T, D extends number = 8> = [D] extends [never]
+  ? never
+  : NonNullable<T> extends
+      | string
+      | number
+      | boolean
+      | bigint
+      | symbol
+      | ((...args: never[]) => unknown)
+  ? []
+  : NonNullable<T> extends readonly (infer E)[]
+  ? [] | [number, ...KeyPaths<E, Depth[D]>]
+  :
+      | []
+      | {
+          [K in keyof NonNullable<T>]-?: [
+            K,
+            ...KeyPaths<NonNullable<T>[K], Depth[D]>,
+          ];
+        }[keyof NonNullable<T>];
+
+/**
+ * type of the value reached by given keys, excluding null and undefined
+ */
+export type PathValue<T, K extends readonly unknown[]> = K extends readonly [
+  infer H,
+  ...infer R,
+]
+  ? H extends keyof NonNullable<T>
+    ? PathValue<NonNullable<T>[H], R>
+    : never
+  : NonNullable<T>;
+
+export const Option = {
+  /**
+   * returns none if given value is null or undefined,
+   * otherwise some of it
+   * @param value
+   */
+  from<T>(value: T): Option<NonNullable<T>> {
+    return value === null || value === undefined
+      ? none_
+      : some(value as NonNullable<T>);
+  },
+  /**
+   * returns none if given value is falsy,
+   * otherwise some of it
+   * @param value
+   */
+  fromFalsy<T>(value: T): Option<Exclude<T, Falsy>> {
+    return value ? some(value as Exclude<T, Falsy>) : none_;
+  },
+  /**
+   * returns some of given value if it satisfies given predicate,
+   * otherwise none.
+   * narrows the type if the predicate is a type guard
+   * @param value
+   * @param predicate
+   */
+  fromPredicate<T, U extends T = T>(
+    value: T,
+    predicate: ((value: T) => value is U) | ((value: T) => boolean),
+  ): Option<U> {
+    return predicate(value) ? some(value as U) : none_;
+  },
+  /**
+   * returns some of the value reached by given keys from given object,
+   * otherwise none if null or undefined is found on the way.
+   * keys are checked by the type of the object
+   * @param obj
+   * @param keys
+   */
+  path<T, K extends KeyPaths<T>>(obj: T, ...keys: K): Option<PathValue<T, K>> {
+    let current: unknown = obj;
+    for (const key of keys as PropertyKey[]) {
+      if (current === null || current === undefined) {
+        return none_;
+      }
+      current = (current as Record<PropertyKey, unknown>)[key];
+    }
+    return Option.from(current as PathValue<T, K>);
+  },
+  /**
+   * runs given generator function, `yield* option` returns the inner value if some,
+   * otherwise stops the generator and returns none
+   * @param f
+   */
+  gen<T>(f: () => Generator<None, T>): Option<T> {
+    const generator = f();
+    const step = generator.next();
+    if (step.done) {
+      return some(step.value);
+    }
+    generator.return(undefined as unknown as T);
+    return none_;
+  },
+  /**
+   * returns some with an array or a record of inner values if all options are some,
+   * otherwise none.
+   * keeps each type of tuple elements and record properties.
+   * @param options
+   */
+  all<R extends Shape<AnyOption>>(options: R): Option<SomeShape<R>> {
+    const values: unknown[] = [];
+    for (const op of valuesOf(options as Shape<Option<unknown>>)) {
+      if (op.isNone) {
+        return none_;
+      }
+      values.push(op.value);
+    }
+    return some(rebuild(options, values) as SomeShape<R>);
+  },
+  /**
+   * returns the first some in given options,
+   * otherwise none
+   * @param options
+   */
+  firstSome<O extends AnyOption>(options: Iterable<O>): Option<InferSome<O>> {
+    for (const option of options) {
+      const op = option as unknown as Option<InferSome<O>>;
+      if (op.isSome) {
+        return op;
+      }
+    }
+    return none_;
+  },
+  /**
+   * returns an array of inner values of some options, drops none
+   * @param options
+   */
+  compact<O extends AnyOption>(options: Iterable<O>): InferSome<O>[] {
+    const values: InferSome<O>[] = [];
+    for (const option of options) {
+      const op = option as unknown as Option<InferSome<O>>;
+      if (op.isSome) {
+        values.push(op.value);
+      }
+    }
+    return values;
+  },
+  /**
+   * returns Ok with restored option if given json is serialized by toJSON(),
+   * and the inner value passes the validator if given,
+   * otherwise Err<TypeError>.
+   * restores none as the unique instance.
+   * restores only the outermost option, use jsonReviver for nested payload
+   * @param json
+   * @param validator
+   */
+  fromJSON<T = unknown>(
+    json: unknown,
+    validator?: (value: unknown) => value is T,
+  ): Result<Option<T>, TypeError> {
+    if (isTagged(json, 'some', 'value')) {
+      if (validator && !validator(json.value)) {
+        return err(new TypeError('invalid value of Some'));
+      }
+      return ok(some(json.value as T));
+    }
+    if (isTagged(json, 'none')) {
+      return ok(none_);
+    }
+    return err(new TypeError('not a serialized Option'));
+  },
+};
@@ -0,0 +1,133 @@
+import { none, Option, some } from './option';
+
+/**
+ * keys of ResultMap, compared by equals() and hash() like Result and Option
+ */
+export interface Hashable<K> {
+  equals(other: K): boolean;
+  hash(): number;
+}
+
+/**
+ * a map keyed by structural equality of keys instead of identity,
+ * e.g. ok(1) and another ok(1) are the same key
+ */
+export class ResultMap<K extends Hashable<K>, V> implements Iterable<[K, V]> {
+  private readonly buckets = new Map<number, [K, V][]>();
+  private count = 0;
+
+  constructor(entries: Iterable<readonly [K, V]> = []) {
+    for (const [key, value] of entries) {
+      this.set(key, value);
+    }
+  }
+
+  /**
+   * number of entries
+   */
+  get size(): number {
+    return this.count;
+  }
+
+  private entryOf(key: K): [K, V] | undefined {
+    return this.buckets.get(key.hash())?.find(([k]) => k.equals(key));
+  }
+
+  /**
+   * returns some of the value for given key if exists,
+   * otherwise none
+   * @param key
+   */
+  get(key: K): Option<V> {
+    const entry = this.entryOf(key);
+    return entry ? some(entry[1]) : none();
+  }
+
+  /**
+   * returns whether an entry for given key exists
+   * @param key
+   */
+  has(key: K): boolean {
+    return this.entryOf(key) !== undefined;
+  }
+
+  /**
+   * sets given value for given key, replacing existing one
+   * @param key
+   * @param value
+   */
+  set(key: K, value: V): this {
+    const entry = this.entryOf(key);
+    if (entry) {
+      entry[1] = value;
+      return this;
+    }
+    const hash = key.hash();
+    const bucket = this.buckets.get(hash);
+    if (bucket) {
+      bucket.push([key, value]);
+    } else {
+      this.buckets.set(hash, [[key, value]]);
+    }
+    this.count++;
+    return this;
+  }
+
+  /**
+   * removes the entry for given key, returns whether it existed
+   * @param key
+   */
+  delete(key: K): boolean {
+    const hash = key.hash();
+    const bucket = this.buckets.get(hash);
+    const index = bucket?.findIndex(([k]) => k.equals(key)) ?? -1;
+    if (!bucket || index < 0) {
+      return false;
+    }
+    bucket.splice(index, 1);
+    if (bucket.length === 0) {
+      this.buckets.delete(hash);
+    }
+    this.count--;
+    return true;
+  }
+
+  /**
+   * removes all entries
+   */
+  clear(): void {
+    this.buckets.clear();
+    this.count = 0;
+  }
+
+  /**
+   * iterates entries in insertion order, except that entries with the same hash are grouped
+   */
+  *entries(): IterableIterator<[K, V]> {
+    for (const bucket of this.buckets.values()) {
+      yield* bucket.map(([key, value]): [K, V] => [key, value]);
+    }
+  }
+
+  /**
+   * iterates keys in the same order as entries()
+   */
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.entries()) {
+      yield key;
+    }
+  }
+
+  /**
+   * iterates values in the same order as entries()
+   */
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries()) {
+      yield value;
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+}
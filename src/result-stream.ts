@@ -0,0 +1,192 @@
+import { ok, Result } from './result';
+import { AsyncResult } from './async-result';
+import { Defect } from './errors';
+
+/**
+ * yields the results of given function for each item in order,
+ * running at most `concurrency` of them at once
+ */
+async function* concurrently<T, U>(
+  source: AsyncIterable<T>,
+  f: (item: T) => Promise<U>,
+  concurrency: number,
+): AsyncGenerator<U, void> {
+  const iterator = source[Symbol.asyncIterator]();
+  const pending: Promise<U>[] = [];
+  let done = false;
+  try {
+    for (;;) {
+      while (!done && pending.length < concurrency) {
+        const step = await iterator.next();
+        if (step.done) {
+          done = true;
+        } else {
+          pending.push(f(step.value));
+        }
+      }
+      const next = pending.shift();
+      if (!next) {
+        return;
+      }
+      yield await next;
+    }
+  } finally {
+    if (!done) {
+      await iterator.return?.();
+    }
+  }
+}
+
+/**
+ * a class for treating asynchronous sequence of results continuously,
+ * like paginated APIs or file streams.
+ * transformations are lazy and run while iterating.
+ * unexpected exceptions thrown in callbacks become Err<Defect>, same as AsyncResult,
+ * so the stream iterates Result<T, E | Defect>
+ */
+export class ResultStream<T, E>
+  implements AsyncIterable<Result<T, E | Defect>>
+{
+  constructor(readonly source: AsyncIterable<Result<T, E | Defect>>) {}
+
+  /**
+   * returns a stream of given items wrapped in Ok
+   * @param items
+   */
+  static from<T, E = never>(
+    items: AsyncIterable<T> | Iterable<T>,
+  ): ResultStream<T, E> {
+    return new ResultStream(
+      (async function* () {
+        for await (const item of items) {
+          yield ok<T, E>(item);
+        }
+      })(),
+    );
+  }
+
+  /**
+   * returns a stream of given results
+   * @param results
+   */
+  static fromResults<T, E>(
+    results: AsyncIterable<Result<T, E>> | Iterable<Result<T, E>>,
+  ): ResultStream<T, E> {
+    return new ResultStream(
+      (async function* () {
+        yield* results;
+      })(),
+    );
+  }
+
+  /**
+   * iterates results of the stream, applying transformations lazily
+   */
+  [Symbol.asyncIterator](): AsyncIterator<Result<T, E | Defect>> {
+    return this.source[Symbol.asyncIterator]();
+  }
+
+  /**
+   * returns a stream of results created by given function with each result,
+   * running at most `concurrency` of them at once in order of the source
+   */
+  private pipe<U, EU>(
+    f: (r: AsyncResult<T, E>) => PromiseLike<Result<U, EU | Defect>>,
+    concurrency = 1,
+  ): ResultStream<U, EU> {
+    if (concurrency < 1) {
+      throw new RangeError('concurrency must be 1 or greater');
+    }
+    return new ResultStream(
+      concurrently(
+        this.source,
+        async (r) => f(new AsyncResult<T, E>(Promise.resolve(r))),
+        concurrency,
+      ),
+    );
+  }
+
+  /**
+   * returns a stream of inner values transformed if ok, just Err otherwise
+   * @param transform
+   * @param concurrency max number of transforms running at once, 1 by default.
+   * the order of the source is kept anyway
+   */
+  map<U>(
+    transform: (value: T) => U | Promise<U>,
+    concurrency?: number,
+  ): ResultStream<U, E> {
+    return this.pipe((r) => r.map(transform), concurrency);
+  }
+
+  /**
+   * returns a stream of just Ok if ok, inner errors transformed otherwise
+   * @param transform
+   */
+  mapErr<EU>(transform: (error: E) => EU | Promise<EU>): ResultStream<T, EU> {
+    return this.pipe((r) => r.mapErr(transform));
+  }
+
+  /**
+   * returns a stream of results created by given function with inner values if ok,
+   * just Err otherwise
+   * @param transform
+   * @param concurrency max number of transforms running at once, 1 by default.
+   * the order of the source is kept anyway
+   */
+  andThen<U, EU = E>(
+    transform: (
+      value: T,
+    ) => Result<U, EU> | Promise<Result<U, EU>> | AsyncResult<U, EU>,
+    concurrency?: number,
+  ): ResultStream<U, E | EU> {
+    return this.pipe<U, E | EU>(
+      (r) => r.andThen(async (value) => await transform(value)),
+      concurrency,
+    );
+  }
+
+  /**
+   * returns a stream of results until the first Err, including it
+   */
+  takeUntilErr(): ResultStream<T, E> {
+    const { source } = this;
+    return new ResultStream(
+      (async function* () {
+        for await (const r of source) {
+          yield r;
+          if (r.isErr) {
+            return;
+          }
+        }
+      })(),
+    );
+  }
+
+  /**
+   * returns Ok with an array of all inner values if all results are ok,
+   * otherwise the first Err without iterating the rest
+   */
+  collect(): AsyncResult<T[], E> {
+    const { source } = this;
+    return AsyncResult.gen(async function* () {
+      const values: T[] = [];
+      for await (const r of source) {
+        values.push(yield* r);
+      }
+      return values;
+    });
+  }
+
+  /**
+   * returns a promise of a tuple of inner values of ok results and errors of err results,
+   * both in order of the source
+   */
+  async partition(): Promise<[T[], (E | Defect)[]]> {
+    const results: Result<T, E | Defect>[] = [];
+    for await (const r of this.source) {
+      results.push(r);
+    }
+    return Result.partition(results);
+  }
+}
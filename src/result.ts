@@ -1,11 +1,73 @@
 import { None, none, Option, some, Some } from './option';
 import { AsyncResult } from 'src/async-result';
+import { rebuild, Shape, ShapeValue, valuesOf } from './shape';
+import { isTagged } from './json';
+import { Defect, defectOf, describe, ResultError, UnwrapError } from './errors';
+import { combineHash, compare, equal, hashOf } from './equality';
 
 export interface ResultMatcher<T, E, R> {
   ok: (value: T) => R;
   err: (error: E) => R;
 }
 
+/**
+ * options for Result.compare
+ */
+export interface ResultCompareOptions<T, E> {
+  /**
+   * ordering of inner values, compare() of them or < and > by default
+   */
+  value?: (a: T, b: T) => number;
+  /**
+   * ordering of inner errors, compare() of them or < and > by default
+   */
+  error?: (a: E, b: E) => number;
+  /**
+   * orders Err before Ok if true, otherwise Ok before Err like Rust
+   */
+  errFirst?: boolean;
+}
+
+/**
+ * error type with string type discriminant like { type: 'network-error' }
+ */
+export type TaggedError = { type: string };
+
+/**
+ * union of type discriminants of given tagged error type,
+ * never unless every member of the union is tagged
+ */
+export type ErrTag<E> = [E] extends [TaggedError]
+  ? E extends { type: infer K }
+    ? Extract<K, string>
+    : never
+  : never;
+
+/**
+ * handlers for every type discriminant of given tagged error type,
+ * never unless every member of the union is tagged, since untagged errors have no handler
+ */
+export type ErrTagMatcher<E, R> = [E] extends [TaggedError]
+  ? { [K in ErrTag<E>]: (error: Extract<E, { type: K }>) => R }
+  : never;
+
+type Tagged = { type?: unknown } | null | undefined;
+
+/**
+ * serialized format of Result
+ */
+export type ResultJSON<T, E> =
+  | { tag: 'ok'; value: T }
+  | { tag: 'err'; error: E };
+
+/**
+ * type guards to check inner value and error on Result.fromJSON
+ */
+export interface ResultValidators<T, E> {
+  value?: (value: unknown) => value is T;
+  error?: (error: unknown) => error is E;
+}
+
 interface ResultBase<T, E> {
   /**
    * currently ok or not
@@ -16,20 +78,45 @@ interface ResultBase<T, E> {
    */
   isErr: boolean;
 
-  [Symbol.iterator](): Iterator<T>;
+  /**
+   * returns inner successful value if ok when delegated by yield*,
+   * otherwise yields current Err to stop Result.gen
+   */
+  [Symbol.iterator](): Generator<Err<E>, T>;
 
   /**
    * returns inner successful value if ok,
-   * otherwise throws
+   * otherwise throws UnwrapError with the inner error as cause
    */
   unwrap(): T;
 
   /**
    * returns inner error value if err,
-   * otherwise throws
+   * otherwise throws UnwrapError with the inner value as cause
    */
   unwrapErr(): E;
 
+  /**
+   * returns inner successful value if ok,
+   * otherwise throws UnwrapError with given message and the inner error as cause
+   * @param message
+   */
+  expect(message: string): T;
+
+  /**
+   * returns inner error value if err,
+   * otherwise throws UnwrapError with given message and the inner value as cause
+   * @param message
+   */
+  expectErr(message: string): E;
+
+  /**
+   * returns inner successful value if ok,
+   * otherwise throws the result of given function with inner error
+   * @param mapToThrowable
+   */
+  unwrapOrThrow(mapToThrowable: (error: E) => unknown): T;
+
   /**
    * returns inner successful value if ok,
    * otherwise given alternate value
@@ -49,6 +136,29 @@ interface ResultBase<T, E> {
    */
   match<R>(matcher: ResultMatcher<T, E, R>): R;
 
+  /**
+   * returns inner value if ok,
+   * otherwise the result of the handler for the type of inner error.
+   * requires a handler for every type of tagged error union,
+   * callable only when every type of error is tagged.
+   * throws ResultError with the inner error as cause if no handler matches it
+   * @param handlers
+   */
+  matchErr<R>(handlers: ErrTagMatcher<E, R>): T | R;
+
+  /**
+   * returns just current result unless err with given type,
+   * otherwise a new result created by given function with inner error.
+   * the handled type is excluded from error type.
+   * callable only when every type of error is tagged
+   * @param tag
+   * @param handler
+   */
+  catchTag<K extends ErrTag<E>, U, EU = never>(
+    tag: K,
+    handler: (error: Extract<E, { type: K }>) => Result<U, EU>,
+  ): Result<T | U, Exclude<E, { type: K }> | EU>;
+
   /**
    * returns inner value transformed Ok if ok,
    * otherwise just current Err<E>
@@ -98,12 +208,81 @@ interface ResultBase<T, E> {
    */
   test(predicate: (value: T) => boolean): boolean;
 
+  /**
+   * calls given function with inner value if ok,
+   * and returns just current result.
+   * if the function throws, it is not caught, same as map()
+   * @param f
+   */
+  inspect(f: (value: T) => void): Result<T, E>;
+
+  /**
+   * calls given function with inner error if err,
+   * and returns just current result.
+   * if the function throws, it is not caught, same as mapErr()
+   * @param f
+   */
+  inspectErr(f: (error: E) => void): Result<T, E>;
+
   /**
    * returns optional value Some<T> if ok,
    * otherwise just None, discard error if err
    */
   toOption(): Option<T>;
 
+  /**
+   * returns inner result if ok,
+   * otherwise just current Err.
+   * callable only when inner value is a result
+   */
+  flatten<U, EU>(this: Result<Result<U, EU>, E>): Result<U, E | EU>;
+
+  /**
+   * converts Result<Option<U>, E> into Option<Result<U, E>>,
+   * returns none if ok with none, some with Ok if ok with some,
+   * otherwise some with current Err.
+   * callable only when inner value is an option
+   */
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>>;
+
+  /**
+   * returns tagged plain object for JSON.stringify(),
+   * can be restored by Result.fromJSON()
+   */
+  toJSON(): ResultJSON<T, E>;
+
+  /**
+   * returns whether both are ok with equal values, or both are err with equal errors.
+   * compared by equals() of them if they have, otherwise Object.is by default
+   * @param other
+   * @param eqValue
+   * @param eqErr
+   */
+  equals(
+    other: Result<T, E>,
+    eqValue?: (a: T, b: T) => boolean,
+    eqErr?: (a: E, b: E) => boolean,
+  ): boolean;
+
+  /**
+   * returns negative if this is less than other, positive if greater, otherwise 0.
+   * Ok is less than Err by default, same states are ordered by inner values
+   * @param other
+   * @param options
+   */
+  compare(other: Result<T, E>, options?: ResultCompareOptions<T, E>): number;
+
+  /**
+   * returns hash consistent with equals(), for ResultMap.
+   * pass hash functions consistent with custom equality if used
+   * @param hashValue
+   * @param hashErr
+   */
+  hash(
+    hashValue?: (value: T) => number,
+    hashErr?: (error: E) => number,
+  ): number;
+
   /**
    * call given function and returns the result of it if ok,
    * otherwise just current Err,
@@ -173,6 +352,22 @@ interface PromiseResult<T, E> {
     f: (value: T) => Result<U, unknown> | Promise<Result<U, unknown>>,
   ): Promise<Result<U, unknown>>;
 
+  /**
+   * calls given function with inner value if ok and waits for it,
+   * and returns just current result wrapped in promise.
+   * if the function throws, the promise is rejected, same as mapAsync()
+   * @param f
+   */
+  tap(f: (value: T) => unknown): Promise<Result<T, E>>;
+
+  /**
+   * calls given function with inner error if err and waits for it,
+   * and returns just current result wrapped in promise.
+   * if the function throws, the promise is rejected, same as mapErrAsync()
+   * @param f
+   */
+  tapErr(f: (error: E) => unknown): Promise<Result<T, E>>;
+
   /**
    * Wrap in AsyncResult<T, E>, to start asynchronous process
    */
@@ -182,6 +377,29 @@ interface PromiseResult<T, E> {
 export type { Ok, Err };
 export type Result<T, E> = Ok<T, E> | Err<E, T>;
 
+/**
+ * any result, without giving contextual error or value type to ok() and err()
+ */
+export type AnyResult = Pick<Result<unknown, unknown>, 'isOk' | 'isErr'>;
+
+/**
+ * extracts successful value type from given result type, distributes over union
+ */
+export type InferOk<R> = R extends Ok<infer T, infer _>
+  ? T
+  : R extends Err<infer _, infer T>
+  ? T
+  : never;
+
+/**
+ * extracts error type from given result type, distributes over union
+ */
+export type InferErr<R> = R extends Ok<infer _, infer E>
+  ? E
+  : R extends Err<infer E, infer _>
+  ? E
+  : never;
+
 class Ok<T, E = never> implements ResultBase<T, E>, PromiseResult<T, E> {
   isOk: true = true;
   isErr: false = false;
@@ -195,15 +413,33 @@ class Ok<T, E = never> implements ResultBase<T, E>, PromiseResult<T, E> {
     return this as unknown as Ok<T>;
   }
 
-  *[Symbol.iterator](): Iterator<T> {
-    yield this.value;
+  [Symbol.iterator](): Generator<Err<E>, T> {
+    // yields nothing, Result.gen just receives the inner value
+    const generator: Generator<Err<E>, T> = {
+      next: () => ({ done: true, value: this.value }),
+      return: (value) => ({ done: true, value }),
+      throw: (e) => {
+        throw e;
+      },
+      [Symbol.iterator]: () => generator,
+    };
+    return generator;
   }
 
   unwrap(): T {
     return this.value;
   }
   unwrapErr(): never {
-    throw new Error('Cannot unwrapErr from Ok');
+    throw new UnwrapError('Cannot unwrapErr from Ok', this.value);
+  }
+  expect(message: string): T {
+    return this.value;
+  }
+  expectErr(message: string): never {
+    throw new UnwrapError(message, this.value);
+  }
+  unwrapOrThrow(mapToThrowable: (error: E) => unknown): T {
+    return this.value;
   }
   unwrapOr<U = T>(alternate: U): T {
     return this.value;
@@ -214,6 +450,15 @@ class Ok<T, E = never> implements ResultBase<T, E>, PromiseResult<T, E> {
   match<R>(matcher: ResultMatcher<T, E, R>): R {
     return matcher.ok(this.value);
   }
+  matchErr<R>(handlers: ErrTagMatcher<E, R>): T {
+    return this.value;
+  }
+  catchTag<K extends ErrTag<E>, U, EU = never>(
+    tag: K,
+    handler: (error: Extract<E, { type: K }>) => Result<U, EU>,
+  ): Ok<T, Exclude<E, { type: K }> | EU> {
+    return this as unknown as Ok<T>;
+  }
   map<U>(transform: (value: T) => U): Ok<U, E> {
     return ok(transform(this.value));
   }
@@ -235,6 +480,13 @@ class Ok<T, E = never> implements ResultBase<T, E>, PromiseResult<T, E> {
   test(predicate: (value: T) => boolean): boolean {
     return predicate(this.value);
   }
+  inspect(f: (value: T) => void): Ok<T, E> {
+    f(this.value);
+    return this;
+  }
+  inspectErr(f: (error: E) => void): Ok<T, E> {
+    return this;
+  }
   toOption(): Some<T> {
     return some(this.value);
   }
@@ -245,6 +497,37 @@ class Ok<T, E = never> implements ResultBase<T, E>, PromiseResult<T, E> {
       return err(e);
     }
   }
+  flatten<U, EU>(this: Result<Result<U, EU>, E>): Result<U, E | EU> {
+    return (this as Ok<Result<U, EU>, E>).value;
+  }
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+    return (this as Ok<Option<U>, E>).value.map((value) => ok<U, E>(value));
+  }
+  toJSON(): ResultJSON<T, E> {
+    return { tag: 'ok', value: this.value };
+  }
+  equals(
+    other: Result<T, E>,
+    eqValue: (a: T, b: T) => boolean = equal,
+    eqErr?: (a: E, b: E) => boolean,
+  ): boolean {
+    return other.isOk && eqValue(this.value, other.value);
+  }
+  compare(
+    other: Result<T, E>,
+    { value = compare, errFirst = false }: ResultCompareOptions<T, E> = {},
+  ): number {
+    if (other.isErr) {
+      return errFirst ? 1 : -1;
+    }
+    return value(this.value, other.value);
+  }
+  hash(
+    hashValue: (value: T) => number = hashOf,
+    hashErr?: (error: E) => number,
+  ): number {
+    return combineHash(1, hashValue(this.value));
+  }
   async mapAsync<U>(
     transform: (value: T) => Promise<U> | U,
   ): Promise<Ok<U, E>> {
@@ -279,6 +562,13 @@ class Ok<T, E = never> implements ResultBase<T, E>, PromiseResult<T, E> {
       return err(e);
     }
   }
+  async tap(f: (value: T) => unknown): Promise<Ok<T, E>> {
+    await f(this.value);
+    return this;
+  }
+  async tapErr(f: (error: E) => unknown): Promise<Ok<T, E>> {
+    return this;
+  }
   toAsync(): AsyncResult<T, E> {
     return new AsyncResult<T, E>(Promise.resolve(this));
   }
@@ -287,7 +577,7 @@ class Ok<T, E = never> implements ResultBase<T, E>, PromiseResult<T, E> {
 class Err<E, T = never> implements ResultBase<T, E>, PromiseResult<T, E> {
   isOk: false = false;
   isErr: true = true;
-  constructor(readonly error: E, readonly stack?: string | undefined) {}
+  constructor(readonly error: E) {}
 
   /**
    * Utility function for type coercion.
@@ -297,14 +587,27 @@ class Err<E, T = never> implements ResultBase<T, E>, PromiseResult<T, E> {
     return this as unknown as Err<E>;
   }
 
-  *[Symbol.iterator](): Iterator<never> {}
+  *[Symbol.iterator](): Generator<Err<E>, T> {
+    yield this as unknown as Err<E>;
+    // Result.gen never resumes the generator after Err is yielded
+    return undefined as unknown as T;
+  }
 
   unwrap(): never {
-    throw new Error('Cannot unwrap Err');
+    throw new UnwrapError('Cannot unwrap Err', this.error);
   }
   unwrapErr(): E {
     return this.error;
   }
+  expect(message: string): never {
+    throw new UnwrapError(message, this.error);
+  }
+  expectErr(message: string): E {
+    return this.error;
+  }
+  unwrapOrThrow(mapToThrowable: (error: E) => unknown): never {
+    throw mapToThrowable(this.error);
+  }
   unwrapOr<U = T>(alternate: U): U {
     return alternate;
   }
@@ -314,6 +617,26 @@ class Err<E, T = never> implements ResultBase<T, E>, PromiseResult<T, E> {
   match<R>(matcher: ResultMatcher<T, E, R>): R {
     return matcher.err(this.error);
   }
+  matchErr<R>(handlers: ErrTagMatcher<E, R>): R {
+    const handler = handlers[(this.error as Tagged)?.type as ErrTag<E>];
+    if (typeof handler !== 'function') {
+      // the error may be untagged despite its type, e.g. parsed from JSON
+      throw new ResultError(
+        `No handler for the type of error: ${describe(this.error)}`,
+        { cause: this.error },
+      );
+    }
+    return handler(this.error as Extract<E, { type: ErrTag<E> }>);
+  }
+  catchTag<K extends ErrTag<E>, U, EU = never>(
+    tag: K,
+    handler: (error: Extract<E, { type: K }>) => Result<U, EU>,
+  ): Result<U, Exclude<E, { type: K }> | EU> {
+    if ((this.error as Tagged)?.type === tag) {
+      return handler(this.error as Extract<E, { type: K }>);
+    }
+    return this as unknown as Err<Exclude<E, { type: K }>>;
+  }
   map<U>(transform: (value: T) => U): Err<E, U> {
     return this as unknown as Err<E>;
   }
@@ -335,12 +658,50 @@ class Err<E, T = never> implements ResultBase<T, E>, PromiseResult<T, E> {
   test(predicate: (value: T) => boolean): false {
     return false;
   }
+  inspect(f: (value: T) => void): Err<E, T> {
+    return this;
+  }
+  inspectErr(f: (error: E) => void): Err<E, T> {
+    f(this.error);
+    return this;
+  }
   toOption(): None<T> {
     return none();
   }
   try<U>(f: (value: T) => Result<U, unknown>): Err<E> {
     return this as unknown as Err<E>;
   }
+  flatten<U, EU>(this: Result<Result<U, EU>, E>): Result<U, E | EU> {
+    return this as unknown as Err<E>;
+  }
+  transpose<U>(this: Result<Option<U>, E>): Option<Result<U, E>> {
+    return some(this as unknown as Err<E, U>);
+  }
+  toJSON(): ResultJSON<T, E> {
+    return { tag: 'err', error: this.error };
+  }
+  equals(
+    other: Result<T, E>,
+    eqValue?: (a: T, b: T) => boolean,
+    eqErr: (a: E, b: E) => boolean = equal,
+  ): boolean {
+    return other.isErr && eqErr(this.error, other.error);
+  }
+  compare(
+    other: Result<T, E>,
+    { error = compare, errFirst = false }: ResultCompareOptions<T, E> = {},
+  ): number {
+    if (other.isOk) {
+      return errFirst ? -1 : 1;
+    }
+    return error(this.error, other.error);
+  }
+  hash(
+    hashValue?: (value: T) => number,
+    hashErr: (error: E) => number = hashOf,
+  ): number {
+    return combineHash(2, hashErr(this.error));
+  }
   async mapAsync<U>(
     transform: (value: T) => Promise<U> | U,
   ): Promise<Err<E, U>> {
@@ -371,6 +732,13 @@ class Err<E, T = never> implements ResultBase<T, E>, PromiseResult<T, E> {
   ): Promise<Err<E>> {
     return this as unknown as Err<E>;
   }
+  async tap(f: (value: T) => unknown): Promise<Err<E, T>> {
+    return this;
+  }
+  async tapErr(f: (error: E) => unknown): Promise<Err<E, T>> {
+    await f(this.error);
+    return this;
+  }
   toAsync(): AsyncResult<T, E> {
     return new AsyncResult<T, E>(Promise.resolve(this));
   }
@@ -402,6 +770,9 @@ export function err<E, T = never>(error?: E): Err<E | undefined, T> {
   return new Err(error);
 }
 
+type OkShape<R> = { -readonly [K in keyof R]: InferOk<R[K]> };
+type ErrShape<R> = { -readonly [K in keyof R]: InferErr<R[K]> };
+
 export const Result = {
   /**
    * return the result of given function wrap in Ok<T> if succeeded,
@@ -416,4 +787,133 @@ export const Result = {
       return err(e as unknown as E);
     }
   },
+  /**
+   * returns the result of given function,
+   * wrap unexpected exception in Err<Defect> if thrown.
+   * unlike try(), the expected error type E is kept apart from Defect.
+   * @param f
+   */
+  sandbox<T, E>(f: () => Result<T, E>): Result<T, E | Defect> {
+    try {
+      return f();
+    } catch (e) {
+      return err(defectOf(e));
+    }
+  },
+  /**
+   * runs given generator function, `yield* result` returns inner value if ok,
+   * otherwise stops the generator and returns the Err.
+   * E type is the union of all error types delegated by yield*.
+   * @param f
+   */
+  gen<T, Y extends Err<unknown> = never>(
+    f: () => Generator<Y, T>,
+  ): Result<T, InferErr<Y>> {
+    const generator = f();
+    const step = generator.next();
+    if (step.done) {
+      return ok(step.value);
+    }
+    generator.return(undefined as unknown as T);
+    return step.value as unknown as Err<InferErr<Y>, T>;
+  },
+  /**
+   * returns Ok with an array or a record of inner values if all results are ok,
+   * otherwise the first Err.
+   * keeps each type of tuple elements and record properties.
+   * @param results
+   */
+  all<R extends Shape<AnyResult>>(
+    results: R,
+  ): Result<OkShape<R>, InferErr<ShapeValue<R>>> {
+    const values: unknown[] = [];
+    for (const r of valuesOf(results as Shape<Result<unknown, unknown>>)) {
+      if (r.isErr) {
+        return r as Err<InferErr<ShapeValue<R>>>;
+      }
+      values.push(r.value);
+    }
+    return ok(rebuild(results, values) as OkShape<R>);
+  },
+  /**
+   * returns the first Ok if any result is ok,
+   * otherwise Err with an array of all errors.
+   * keeps each type of tuple elements.
+   * @param results
+   */
+  any<R extends readonly AnyResult[] | []>(
+    results: R,
+  ): Result<InferOk<R[number]>, ErrShape<R>> {
+    const errors: unknown[] = [];
+    for (const r of results as readonly Result<unknown, unknown>[]) {
+      if (r.isOk) {
+        return r as Ok<InferOk<R[number]>>;
+      }
+      errors.push(r.error);
+    }
+    return err(errors as ErrShape<R>);
+  },
+  /**
+   * returns a tuple of inner values of ok results and errors of err results,
+   * both in order of given results
+   * @param results
+   */
+  partition<R extends AnyResult>(
+    results: Iterable<R>,
+  ): [InferOk<R>[], InferErr<R>[]] {
+    const values: InferOk<R>[] = [];
+    const errors: InferErr<R>[] = [];
+    for (const result of results) {
+      const r = result as unknown as Result<unknown, unknown>;
+      if (r.isOk) {
+        values.push(r.value as InferOk<R>);
+      } else {
+        errors.push(r.error as InferErr<R>);
+      }
+    }
+    return [values, errors];
+  },
+  /**
+   * returns Ok with an array or a record of inner values if all results are ok,
+   * otherwise Err with an array of all errors, unlike Result.all does not stop at the first Err.
+   * keeps each type of tuple elements and record properties.
+   * @param results
+   */
+  collectErrors<R extends Shape<AnyResult>>(
+    results: R,
+  ): Result<OkShape<R>, InferErr<ShapeValue<R>>[]> {
+    const [values, errors] = Result.partition(
+      valuesOf(results as Shape<Result<unknown, unknown>>),
+    );
+    if (errors.length > 0) {
+      return err(errors as InferErr<ShapeValue<R>>[]);
+    }
+    return ok(rebuild(results, values) as OkShape<R>);
+  },
+  /**
+   * returns Ok with restored result if given json is serialized by toJSON(),
+   * and inner value or error passes the validator if given,
+   * otherwise Err<TypeError>.
+   * restores only the outermost result, use jsonReviver for nested payload
+   * @param json
+   * @param validators
+   */
+  fromJSON<T = unknown, E = unknown>(
+    json: unknown,
+    validators: ResultValidators<T, E> = {},
+  ): Result<Result<T, E>, TypeError> {
+    if (isTagged(json, 'ok', 'value')) {
+      if (validators.value && !validators.value(json.value)) {
+        return err(new TypeError('invalid value of Ok'));
+      }
+      return ok(ok(json.value as T));
+    }
+    if (isTagged(json, 'err', 'error')) {
+      if (validators.error && !validators.error(json.error)) {
+        return err(new TypeError('invalid error of Err'));
+      }
+      return ok(err(json.error as E));
+    }
+    return err(new TypeError('not a serialized Result'));
+  },
 };
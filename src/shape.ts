@@ -0,0 +1,33 @@
+/**
+ * an array, a tuple or a record of values, taken by collection functions
+ */
+export type Shape<V> = readonly V[] | [] | { readonly [key: string]: V };
+
+/**
+ * union of the value types in given shape
+ */
+export type ShapeValue<S> = S extends readonly unknown[]
+  ? S[number]
+  : S[keyof S];
+
+/**
+ * returns the values in given shape, in order of its keys
+ * @param shape
+ */
+export function valuesOf<V>(shape: Shape<V>): V[] {
+  return Array.isArray(shape) ? [...shape] : Object.values(shape);
+}
+
+/**
+ * returns a new shape with the same keys as given shape,
+ * filled with given values in order of its keys
+ * @param shape
+ * @param values
+ */
+export function rebuild<V>(shape: Shape<unknown>, values: V[]): Shape<V> {
+  if (Array.isArray(shape)) {
+    return values;
+  }
+  const keys = Object.keys(shape);
+  return Object.fromEntries(keys.map((key, i) => [key, values[i]]));
+}
@@ -0,0 +1,89 @@
+import { AnyResult, InferErr, InferOk, Result } from './result';
+
+/**
+ * an array which has at least one element
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * a result which accumulates errors,
+ * Err has every error of the combined validations
+ */
+export type Validation<T, E> = Result<T, NonEmptyArray<E>>;
+
+type ErrorItem<A> = A extends NonEmptyArray<infer E> ? E : never;
+type OkTuple<V> = { -readonly [K in keyof V]: InferOk<V[K]> };
+
+export const Validation = {
+  /**
+   * returns a validation with the same inner value if ok,
+   * otherwise Err with an array of the single error
+   * @param r
+   */
+  fromResult<T, E>(r: Result<T, E>): Validation<T, E> {
+    return r.mapErr((error): NonEmptyArray<E> => [error]);
+  },
+  /**
+   * returns Ok with a tuple of inner values if all results are ok,
+   * otherwise Err with all errors.
+   * takes plain results, not validations
+   * @param results
+   */
+  combine<R extends readonly AnyResult[] | []>(
+    results: R,
+  ): Validation<OkTuple<R>, InferErr<R[number]>> {
+    return Result.collectErrors(results).mapErr(
+      (errors) => errors as NonEmptyArray<InferErr<R[number]>>,
+    ) as Validation<OkTuple<R>, InferErr<R[number]>>;
+  },
+  /**
+   * returns Ok with a tuple of inner values if all validations are ok,
+   * otherwise Err with errors of all validations concatenated
+   * @param validations
+   */
+  zip<V extends readonly AnyResult[] | []>(
+    validations: V,
+  ): Validation<OkTuple<V>, ErrorItem<InferErr<V[number]>>> {
+    return Result.collectErrors(validations).mapErr(
+      (errors) =>
+        (errors as unknown[][]).flat() as NonEmptyArray<
+          ErrorItem<InferErr<V[number]>>
+        >,
+    ) as Validation<OkTuple<V>, ErrorItem<InferErr<V[number]>>>;
+  },
+  /**
+   * returns Ok with the result of given function with inner values if both validations are ok,
+   * otherwise Err with errors of both validations concatenated
+   * @param a
+   * @param b
+   * @param transform
+   */
+  zipWith<A, B, EA, EB, R>(
+    a: Validation<A, EA>,
+    b: Validation<B, EB>,
+    transform: (a: A, b: B) => R,
+  ): Validation<R, EA | EB> {
+    return Validation.mapN([a, b], transform);
+  },
+  /**
+   * returns Ok with the result of given function with inner values if all validations are ok,
+   * otherwise Err with errors of all validations concatenated
+   * @param validations
+   * @param transform
+   */
+  mapN<V extends readonly AnyResult[] | [], R>(
+    validations: V,
+    transform: (...values: Extract<OkTuple<V>, unknown[]>) => R,
+  ): Validation<R, ErrorItem<InferErr<V[number]>>> {
+    return Validation.zip(validations).map((values) =>
+      transform(...(values as Extract<OkTuple<V>, unknown[]>)),
+    );
+  },
+  /**
+   * returns just given validation as a result with an array of errors
+   * @param validation
+   */
+  toResult<T, E>(validation: Validation<T, E>): Result<T, E[]> {
+    return validation;
+  },
+};
@@ -0,0 +1 @@
+export { resultMatchers } from './src/matchers';
@@ -1,4 +1,7 @@
-import { none, some } from '../src/option';
+import { none, Option, some } from '../src/option';
+import { AsyncOption } from '../src/async-option';
+import { err, ok } from '../src/result';
+import { Defect, onDefect } from '../src/errors';
 
 describe('AsyncOption<T>', () => {
   const op = some(10).toAsync();
@@ -11,6 +14,32 @@ describe('AsyncOption<T>', () => {
       await anon.match({ some: async (v) => v * 10, none: async () => 55 }),
     ).toBe(55);
   });
+  test('should be awaited to inner option', async () => {
+    const o: Option<number> = await op;
+    expect(o.unwrap()).toBe(10);
+    expect(await anon).toBe(none());
+  });
+  test('should never reject but resolve to none, reporting the Defect', async () => {
+    const hook = jest.fn();
+    onDefect(hook);
+    try {
+      const error = new Error('unexpected');
+      const o = op.map((): number => {
+        throw error;
+      });
+      await expect(o.toPromise()).resolves.toBe(none());
+      expect(hook).toHaveBeenCalledWith(expect.any(Defect));
+      expect(hook).toHaveBeenCalledWith(
+        expect.objectContaining({ cause: error }),
+      );
+    } finally {
+      onDefect(undefined);
+    }
+  });
+  test('expect() should reject with given message', async () => {
+    expect(await op.expect('unused')).toBe(10);
+    await expect(anon.expect('should exist')).rejects.toThrow('should exist');
+  });
   test('just call inner option and wrap the result with AsyncOption', async () => {
     expect(await op.test(async (v) => v > 20)).toBe(false);
     expect((await op.map((v) => v * 2).toPromise()).unwrap()).toBe(20);
@@ -25,6 +54,41 @@ describe('AsyncOption<T>', () => {
     expect((await op.or(none()).toPromise()).unwrap()).toBe(10);
     expect(await op.xor(some(20)).toPromise()).toBe(none());
   });
+  test('inspect() and tap() should call side effects and keep the option', async () => {
+    const f = jest.fn();
+    expect(await op.inspect(f).tap(f).unwrap()).toBe(10);
+    expect(await anon.inspect(f).tap(f).toPromise()).toBe(none());
+    expect(f.mock.calls).toEqual([[10], [10]]);
+  });
+  test('inspect() and tap() should resolve to none if the side effect throws', async () => {
+    const hook = jest.fn();
+    onDefect(hook);
+    try {
+      const error = new Error('side effect');
+      const f = () => {
+        throw error;
+      };
+      expect(await op.inspect(f).toPromise()).toBe(none());
+      expect(await op.tap(f).toPromise()).toBe(none());
+      expect(hook).toHaveBeenCalledTimes(2);
+      expect(hook).toHaveBeenCalledWith(
+        expect.objectContaining({ cause: error }),
+      );
+    } finally {
+      onDefect(undefined);
+    }
+  });
+  test('flatten() and transpose() should convert nested types', async () => {
+    expect(await some(some(10)).toAsync().flatten().unwrap()).toBe(10);
+    expect(await some(none<number>()).toAsync().flatten().toPromise()).toBe(
+      none(),
+    );
+    const transposed = some(ok<number, string>(10)).toAsync().transpose();
+    expect((await transposed.unwrap()).unwrap()).toBe(10);
+    expect(await some(err('error')).toAsync().transpose().unwrapErr()).toBe(
+      'error',
+    );
+  });
   test('can be converted into AsyncResult or Promise of Result', async () => {
     expect(await (await anon.toAsyncResult(() => 'error')).unwrapErr()).toBe(
       'error',
@@ -35,4 +99,72 @@ describe('AsyncOption<T>', () => {
       'error',
     );
   });
+  test('static gen() should unwrap options until the first none', async () => {
+    expect(
+      await AsyncOption.gen(async function* () {
+        const a = yield* op;
+        const b = yield* some(5);
+        const c = yield* await Promise.resolve(some(1));
+        return a + b + c;
+      }).unwrap(),
+    ).toBe(16);
+    const after = jest.fn();
+    expect(
+      await AsyncOption.gen(async function* () {
+        const a = yield* op;
+        const b = yield* anon;
+        after();
+        return a + b;
+      }).toPromise(),
+    ).toBe(none());
+    expect(after).not.toHaveBeenCalled();
+  });
+  describe('concurrent collection helpers', () => {
+    const pending = new AsyncOption<number>(new Promise(() => {}));
+    test('static all() should return some with tuple or record if all are some', async () => {
+      const tuple: AsyncOption<[number, string]> = AsyncOption.all([
+        op,
+        Promise.resolve(some('a')),
+      ]);
+      expect(await tuple.unwrap()).toEqual([10, 'a']);
+      const record: AsyncOption<{ a: number }> = AsyncOption.all({ a: op });
+      expect(await record.unwrap()).toEqual({ a: 10 });
+    });
+    test('static all() should resolve to none without waiting for others', async () => {
+      expect(await AsyncOption.all([pending, anon]).toPromise()).toBe(none());
+    });
+    test('static firstSome() should return the first some in order', async () => {
+      const later = new AsyncOption(
+        new Promise<Option<number>>((resolve) =>
+          setTimeout(() => resolve(some(1)), 5),
+        ),
+      );
+      expect(await AsyncOption.firstSome([anon, later, op]).unwrap()).toBe(1);
+      expect(await AsyncOption.firstSome([op, pending]).unwrap()).toBe(10);
+      expect(await AsyncOption.firstSome([anon]).toPromise()).toBe(none());
+    });
+  });
+  describe('nullable bridges', () => {
+    test('from(), fromFalsy() and fromPredicate() should accept promises', async () => {
+      const o: AsyncOption<number> = AsyncOption.from(
+        Promise.resolve(null as number | null),
+      );
+      expect(await o).toBe(none());
+      expect(await AsyncOption.from(Promise.resolve(0)).unwrap()).toBe(0);
+      expect(await AsyncOption.fromFalsy(Promise.resolve(0))).toBe(none());
+      expect(
+        await AsyncOption.fromPredicate(10, async (v) => v > 5).unwrap(),
+      ).toBe(10);
+    });
+    test('path() should access nested properties of promised object', async () => {
+      const fetched = Promise.resolve({ data: { id: 1 } as { id?: number } });
+      const id: AsyncOption<number> = AsyncOption.path(fetched, 'data', 'id');
+      expect(await id.unwrap()).toBe(1);
+    });
+    test('toNullable() and toUndefined() should resolve to the inner value or empty', async () => {
+      expect(await op.toNullable()).toBe(10);
+      expect(await anon.toNullable()).toBeNull();
+      expect(await anon.toUndefined()).toBeUndefined();
+    });
+  });
 });
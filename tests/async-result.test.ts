@@ -1,6 +1,14 @@
-import { ok, err } from '../src/result';
-import { none } from '../src/option';
-import { AsyncResult } from '../src/async-result';
+import { ok, err, Result } from '../src/result';
+import { none, Option, some } from '../src/option';
+import { EventEmitter } from 'events';
+import { Defect, onDefect } from '../src/errors';
+import {
+  AsyncResult,
+  Cancelled,
+  NodeCallback,
+  RetryError,
+  TraverseOptions,
+} from '../src/async-result';
 
 describe('AsyncResult<T,E>', () => {
   const rOk = AsyncResult.begin().andThen<number, string>(() => ok(10));
@@ -8,10 +16,27 @@ describe('AsyncResult<T,E>', () => {
   test('toPromise() just returns inner promise', async () => {
     expect((await rOk.toPromise()).unwrap()).toBe(10);
   });
+  test('expect() and unwrapOrThrow() should reject with errors', async () => {
+    expect(await rOk.expect('unused')).toBe(10);
+    await expect(rErr.expect('should succeed')).rejects.toThrow(
+      'should succeed: "error"',
+    );
+    await expect(rOk.expectErr('should fail')).rejects.toThrow(
+      'should fail: 10',
+    );
+    expect(await rErr.expectErr('unused')).toBe('error');
+    await expect(
+      rErr.unwrapOrThrow((e) => new RangeError(String(e))),
+    ).rejects.toBeInstanceOf(RangeError);
+  });
   test('should return just promised result for consumers', async () => {
     expect(await rOk.unwrap()).toBe(10);
     expect(await rErr.unwrapOr(100)).toBe(100);
-    expect(await rErr.unwrapOrElse((error) => error.length)).toBe(5);
+    expect(
+      await rErr.unwrapOrElse((error) =>
+        Defect.isDefect(error) ? 0 : error.length,
+      ),
+    ).toBe(5);
     expect(
       await rOk.match({
         ok: (v) => v + v,
@@ -42,6 +67,40 @@ describe('AsyncResult<T,E>', () => {
         .unwrapErr(),
     ).toBe(o);
   });
+  test('inspect() and tap() should call side effects and keep the result', async () => {
+    const f = jest.fn();
+    expect(await rOk.inspect(f).inspectErr(f).unwrap()).toBe(10);
+    expect(await rErr.inspect(f).inspectErr(f).unwrapErr()).toBe('error');
+    expect(f.mock.calls).toEqual([[10], ['error']]);
+    const order: string[] = [];
+    await rOk
+      .tap(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        order.push('tap');
+      })
+      .tapErr(() => order.push('tapErr'))
+      .inspect(() => order.push('inspect')).promise;
+    expect(order).toEqual(['tap', 'inspect']);
+  });
+  test('flatten() and transpose() should convert nested types', async () => {
+    expect(await ok(ok(10)).toAsync().flatten().unwrap()).toBe(10);
+    expect(
+      await ok<Result<number, string>, boolean>(err('inner'))
+        .toAsync()
+        .flatten()
+        .unwrapErr(),
+    ).toBe('inner');
+    const transposed = ok<Option<number>, string>(some(10))
+      .toAsync()
+      .transpose();
+    expect((await transposed.unwrap()).unwrap()).toBe(10);
+    expect(
+      await rErr
+        .map(() => none<number>())
+        .transpose()
+        .unwrap(),
+    ).toBe(await rErr.promise);
+  });
   test('can be converted into option promise or async option', async () => {
     expect(await rErr.toOptionPromise()).toBe(none());
     expect(
@@ -65,4 +124,494 @@ describe('AsyncResult<T,E>', () => {
       }).unwrapErr(),
     ).toBe(o);
   });
+  test('static gen() should unwrap results until the first Err', async () => {
+    expect(
+      await AsyncResult.gen(async function* () {
+        const a = yield* rOk;
+        const b = yield* ok<number, boolean>(5);
+        const c = yield* await Promise.resolve(ok(1));
+        return a + b + c;
+      }).unwrap(),
+    ).toBe(16);
+    const after = jest.fn();
+    const r: AsyncResult<number, string | boolean> = AsyncResult.gen(
+      async function* () {
+        const a = yield* rOk;
+        const b = yield* err<boolean, number>(false);
+        after();
+        return a + b;
+      },
+    );
+    expect(await r.unwrapErr()).toBe(false);
+    expect(after).not.toHaveBeenCalled();
+  });
+  describe('concurrent combinators', () => {
+    const pending = new AsyncResult<number, string>(new Promise(() => {}));
+    test('static all() should return Ok with tuple or record of inner values', async () => {
+      const tuple: AsyncResult<[number, string], string | boolean> =
+        AsyncResult.all([rOk, Promise.resolve(ok<string, boolean>('a'))]);
+      expect(await tuple.unwrap()).toEqual([10, 'a']);
+      const record: AsyncResult<{ a: number; b: string }, string> =
+        AsyncResult.all({ a: rOk, b: ok<string, string>('b').toAsync() });
+      expect(await record.unwrap()).toEqual({ a: 10, b: 'b' });
+      expect(await AsyncResult.all([]).unwrap()).toEqual([]);
+    });
+    test('static all() should resolve to the first Err without waiting for others', async () => {
+      expect(await AsyncResult.all([pending, rErr]).unwrapErr()).toBe('error');
+    });
+    test('static allSettled() should return every result', async () => {
+      const settled: AsyncResult<
+        [Result<number, string | Defect>, Result<number, string | Defect>],
+        never
+      > = AsyncResult.allSettled([rOk, rErr]);
+      const [a, b] = await settled.unwrap();
+      expect(a.unwrap()).toBe(10);
+      expect(b.unwrapErr()).toBe('error');
+    });
+    test('static race() should return the first settled result', async () => {
+      expect(await AsyncResult.race([pending, rErr]).unwrapErr()).toBe('error');
+      expect(await AsyncResult.race([rOk, pending]).unwrap()).toBe(10);
+    });
+    test('static any() should return the first Ok or all errors', async () => {
+      expect(await AsyncResult.any([pending, rErr, rOk]).unwrap()).toBe(10);
+      const failed: AsyncResult<number, [string, number]> = AsyncResult.any([
+        rErr,
+        Promise.resolve(err<number, number>(1)),
+      ]);
+      expect(await failed.unwrapErr()).toEqual(['error', 1]);
+    });
+  });
+  describe('traverse', () => {
+    const sleep = (ms: number) =>
+      new Promise<void>((resolve) => setTimeout(resolve, ms));
+    test('static traverse() should keep order and limit concurrency', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const r = AsyncResult.traverse(
+        [5, 4, 3, 2, 1],
+        async (v) => {
+          running += 1;
+          maxRunning = Math.max(maxRunning, running);
+          await sleep(v);
+          running -= 1;
+          return ok(v * 10);
+        },
+        { concurrency: 2 },
+      );
+      expect(await r.unwrap()).toEqual([50, 40, 30, 20, 10]);
+      expect(maxRunning).toBe(2);
+      expect(await AsyncResult.traverse([], () => ok(1)).unwrap()).toEqual([]);
+    });
+    test('static traverse() should stop launching at the first Err', async () => {
+      const f = jest.fn((v: number) =>
+        v === 2 ? err('error') : ok<number, string>(v),
+      );
+      const r = AsyncResult.traverse([1, 2, 3, 4], f, { concurrency: 1 });
+      expect(await r.unwrapErr()).toBe('error');
+      expect(f).toHaveBeenCalledTimes(2);
+    });
+    test('static traverse() should collect all errors in order if not failFast', async () => {
+      const r: AsyncResult<number[], string[]> = AsyncResult.traverse(
+        [3, 1, 2],
+        async (v) => {
+          await sleep(v);
+          return v === 2 ? ok<number, string>(v) : err(`e${v}`);
+        },
+        { failFast: false },
+      );
+      expect(await r.unwrapErr()).toEqual(['e3', 'e1']);
+    });
+    test('static traverse() should accept TraverseOptions decided at runtime', async () => {
+      const f = (v: number) => (v === 2 ? err('error') : ok<number, string>(v));
+      const options: TraverseOptions = { failFast: false };
+      const r: AsyncResult<number[], string | string[]> = AsyncResult.traverse(
+        [1, 2, 3, 2],
+        f,
+        options,
+      );
+      expect(await r.unwrapErr()).toEqual(['error', 'error']);
+      const failFast = !options.failFast;
+      expect(
+        await AsyncResult.traverse([1, 2, 3, 2], f, { failFast }).unwrapErr(),
+      ).toBe('error');
+    });
+    test('static traverse() should reject invalid concurrency', () => {
+      expect(() => AsyncResult.traverse([1], ok, { concurrency: 0 })).toThrow(
+        RangeError,
+      );
+    });
+    test('static traverseSeq() should run one by one until the first Err', async () => {
+      const order: number[] = [];
+      const f = async (v: number) => {
+        await sleep(4 - v);
+        order.push(v);
+        return v < 3 ? ok<number, string>(v) : err('error');
+      };
+      expect(await AsyncResult.traverseSeq([1, 2], f).unwrap()).toEqual([1, 2]);
+      expect(await AsyncResult.traverseSeq([1, 2, 3, 1], f).unwrapErr()).toBe(
+        'error',
+      );
+      expect(order).toEqual([1, 2, 1, 2, 3]);
+    });
+  });
+  describe('retry', () => {
+    const failing = (times: number) => {
+      let count = 0;
+      return jest.fn(() => {
+        count += 1;
+        return count > times
+          ? ok<number, string>(count).toAsync()
+          : err<string, number>(`error${count}`).toAsync();
+      });
+    };
+    test('static retry() should rerun until ok', async () => {
+      const factory = failing(2);
+      const delays: number[] = [];
+      const r = AsyncResult.retry(factory, {
+        attempts: 3,
+        delay: 100,
+        sleep: async (ms) => {
+          delays.push(ms);
+        },
+      });
+      expect(await r.unwrap()).toBe(3);
+      expect(factory).toHaveBeenCalledTimes(3);
+      expect(delays).toEqual([100, 100]);
+    });
+    test('static retry() should return the last error with attempt count', async () => {
+      const delays: number[] = [];
+      const r: AsyncResult<number, RetryError<string>> = AsyncResult.retry(
+        failing(10),
+        {
+          attempts: 4,
+          backoff: 'exponential',
+          delay: 100,
+          maxDelay: 300,
+          jitter: true,
+          random: () => 0.5,
+          sleep: async (ms) => {
+            delays.push(ms);
+          },
+        },
+      );
+      expect(await r.unwrapErr()).toEqual({ error: 'error4', attempts: 4 });
+      expect(delays).toEqual([50, 100, 150]);
+    });
+    test('static retry() should stop if shouldRetry returns false', async () => {
+      const factory = failing(10);
+      const shouldRetry = jest.fn(
+        (error: string, attempt: number) => attempt < 2,
+      );
+      const r = AsyncResult.retry(factory, {
+        attempts: 5,
+        shouldRetry,
+        sleep: async () => {},
+      });
+      expect(await r.unwrapErr()).toEqual({ error: 'error2', attempts: 2 });
+      expect(shouldRetry).toHaveBeenLastCalledWith('error2', 2);
+      expect(factory).toHaveBeenCalledTimes(2);
+    });
+    test('static retry() should resolve to Err<Defect> if factory throws on any attempt', async () => {
+      const thrown = new Error('thrown');
+      const first = AsyncResult.retry<number, string>(
+        () => {
+          throw thrown;
+        },
+        { attempts: 2 },
+      );
+      expect(await first.unwrapErr()).toBeInstanceOf(Defect);
+      let count = 0;
+      const later = AsyncResult.retry(
+        () => {
+          count += 1;
+          if (count > 1) {
+            throw thrown;
+          }
+          return err<string, number>('error');
+        },
+        { attempts: 2, sleep: async () => {} },
+      );
+      expect(await later.unwrapErr()).toBeInstanceOf(Defect);
+    });
+  });
+  describe('timeout and cancellation', () => {
+    const pending = new AsyncResult<number, string>(new Promise(() => {}));
+    test('timeout() should return Err created by given function on expiry', async () => {
+      const r: AsyncResult<number, string | { type: 'timeout' }> =
+        pending.timeout(5, () => ({ type: 'timeout' as const }));
+      expect(await r.unwrapErr()).toEqual({ type: 'timeout' });
+      expect(await rOk.timeout(1000, () => 'timeout').unwrap()).toBe(10);
+    });
+    test('withSignal() should resolve to Err<Cancelled> once aborted', async () => {
+      const controller = new AbortController();
+      const r: AsyncResult<number, string | Cancelled> = pending.withSignal(
+        controller.signal,
+      );
+      controller.abort();
+      expect(await r.unwrapErr()).toMatchObject({ type: 'cancelled' });
+    });
+    test('callbacks should be skipped after the signal is aborted', async () => {
+      const controller = new AbortController();
+      const transform = jest.fn((v: number) => v + 1);
+      const r = rOk
+        .withSignal(controller.signal)
+        .map((v) => {
+          controller.abort();
+          return v;
+        })
+        .map(transform)
+        .andThen((v) => ok(v));
+      expect(await r.unwrapErr()).toMatchObject({ type: 'cancelled' });
+      expect(transform).not.toHaveBeenCalled();
+    });
+    test('remapping the error should stop carrying the signal', async () => {
+      const controller = new AbortController();
+      const r: AsyncResult<number, never> = rOk
+        .withSignal(controller.signal)
+        .orElse(() => ok(0))
+        .map((v) => {
+          controller.abort();
+          return v;
+        })
+        .map((v) => v + 1);
+      expect(await r.unwrap()).toBe(11);
+    });
+    test('timeout() should resolve to Err<Defect> if onTimeout throws', async () => {
+      const r = pending.timeout(5, () => {
+        throw new Error('thrown');
+      });
+      expect(await r.unwrapErr()).toBeInstanceOf(Defect);
+    });
+    test('static fromAbortable() should pass the signal and resolve to Cancelled if aborted', async () => {
+      const controller = new AbortController();
+      const f = jest.fn(
+        (signal: AbortSignal) =>
+          new Promise<number>((resolve, reject) =>
+            signal.addEventListener('abort', () =>
+              reject(new Error('aborted')),
+            ),
+          ),
+      );
+      const r = AsyncResult.fromAbortable(f, controller.signal);
+      controller.abort();
+      expect(await r.unwrapErr()).toMatchObject({ type: 'cancelled' });
+      expect(f).toHaveBeenCalledWith(controller.signal);
+      expect(await AsyncResult.fromAbortable(() => 10).unwrap()).toBe(10);
+      const o = {};
+      expect(
+        await AsyncResult.fromAbortable(() => {
+          throw o;
+        }).unwrapErr(),
+      ).toBe(o);
+    });
+  });
+  describe('tagged errors', () => {
+    type NotFound = { type: 'not-found'; id: number };
+    type Timeout = { type: 'timeout'; ms: number };
+    const notFound = () =>
+      err<NotFound | Timeout, string>({ type: 'not-found', id: 1 }).toAsync();
+    test('matchErr() should dispatch on type of inner error', async () => {
+      const handlers = {
+        'not-found': (e: NotFound) => e.id,
+        timeout: (e: Timeout) => e.ms,
+        defect: () => 0,
+      };
+      expect(await notFound().matchErr(handlers)).toBe(1);
+      expect(
+        await ok<string, NotFound | Timeout>('value')
+          .toAsync()
+          .matchErr(handlers),
+      ).toBe('value');
+    });
+    test('catchTag() should recover only given type of error', async () => {
+      const recovered: AsyncResult<string | number, Timeout> =
+        notFound().catchTag('not-found', async (e) => ok(e.id));
+      expect(await recovered.unwrap()).toBe(1);
+      expect(
+        await notFound()
+          .catchTag('timeout', () => ok(0))
+          .unwrapErr(),
+      ).toEqual({ type: 'not-found', id: 1 });
+    });
+    test('matchErr() and catchTag() should require every type of error to be tagged', async () => {
+      const partial = err<NotFound | string, number>('error').toAsync();
+      await expect(
+        // @ts-expect-error untagged error has no handler
+        partial.matchErr({ 'not-found': () => 0 }),
+      ).rejects.toMatchObject({ name: 'ResultError', cause: 'error' });
+      expect(
+        await partial
+          // @ts-expect-error untagged error has no type
+          .catchTag('not-found', () => ok(0))
+          .unwrapErr(),
+      ).toBe('error');
+    });
+  });
+  describe('interop', () => {
+    test('should be awaited to inner result', async () => {
+      const r: Result<number, string | Defect> = await rOk;
+      expect(r.unwrap()).toBe(10);
+      expect((await rErr).unwrapErr()).toBe('error');
+    });
+    test('toPromise() should be typed as promise of result', async () => {
+      const promise: Promise<Result<number, string | Defect>> = rOk.toPromise();
+      expect((await promise).unwrap()).toBe(10);
+    });
+    test('should never reject but resolve to Err<Defect>', async () => {
+      const error = new Error('unexpected');
+      const r = rOk.map(() => {
+        throw error;
+      });
+      await expect(r.toPromise()).resolves.toBeDefined();
+      const defect = (await r).unwrapErr();
+      expect(defect).toBeInstanceOf(Defect);
+      expect(defect).toMatchObject({ cause: error });
+      const rejected = new AsyncResult(Promise.reject('rejected'));
+      expect(await rejected.unwrapErr()).toMatchObject({ cause: 'rejected' });
+    });
+    test('fromPromise() should map rejection reason', async () => {
+      const r: AsyncResult<number, string> = AsyncResult.fromPromise(
+        Promise.resolve(1),
+        String,
+      );
+      expect(await r.unwrap()).toBe(1);
+      expect(
+        await AsyncResult.fromPromise(Promise.reject(404), (e) => ({
+          status: e,
+        })).unwrapErr(),
+      ).toEqual({ status: 404 });
+    });
+    test('fromCallback() should wrap node-style callback', async () => {
+      const read = (path: string, callback: NodeCallback<string, Error>) =>
+        path
+          ? callback(null, `content of ${path}`)
+          : callback(new Error('no path'));
+      expect(
+        await AsyncResult.fromCallback<string, Error>((cb) =>
+          read('a.txt', cb),
+        ).unwrap(),
+      ).toBe('content of a.txt');
+      expect(
+        await AsyncResult.fromCallback<string, Error>((cb) => read('', cb))
+          .map(() => '')
+          .unwrapErr(),
+      ).toEqual(new Error('no path'));
+      expect(
+        await AsyncResult.fromCallback(() => {
+          throw 'thrown';
+        }).unwrapErr(),
+      ).toBe('thrown');
+    });
+    test('fromEvent() should settle with the first event', async () => {
+      const emitter = new EventEmitter();
+      const r = AsyncResult.fromEvent<number, Error>(emitter, 'done');
+      emitter.emit('done', 10);
+      expect(await r.unwrap()).toBe(10);
+      expect(emitter.listenerCount('error')).toBe(0);
+      const failed = AsyncResult.fromEvent(emitter, 'done', 'fail');
+      emitter.emit('fail', 'error');
+      expect(await failed.unwrapErr()).toBe('error');
+      expect(emitter.listenerCount('done')).toBe(0);
+    });
+    test('toCallback() should call node-style callback', async () => {
+      const callback = jest.fn();
+      rOk.toCallback(callback);
+      rErr.toCallback(callback);
+      await rOk;
+      await rErr;
+      expect(callback).toHaveBeenCalledWith(null, 10);
+      expect(callback).toHaveBeenCalledWith('error');
+    });
+    test('toCallback() should rethrow exceptions of the callback out of the promise chain', async () => {
+      const tasks: (() => void)[] = [];
+      const spy = jest
+        .spyOn(global, 'queueMicrotask')
+        .mockImplementation((task) => tasks.push(task));
+      const callback = jest.fn(() => {
+        throw new TypeError('bug');
+      });
+      try {
+        rOk.toCallback(callback);
+        await rOk;
+        await Promise.resolve();
+      } finally {
+        spy.mockRestore();
+      }
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0]).toThrow(new TypeError('bug'));
+    });
+  });
+  describe('defects', () => {
+    const defective = () =>
+      rOk.map((): number => {
+        throw new TypeError('bug');
+      });
+    afterEach(() => onDefect(undefined));
+    test('callbacks for expected errors should skip Err<Defect>', async () => {
+      const handler = jest.fn(() => ok(0));
+      const r = defective()
+        .mapErr(handler)
+        .orElse(handler)
+        .or(ok(0))
+        .inspectErr(handler)
+        .tapErr(handler);
+      expect(await r.unwrapErr()).toBeInstanceOf(Defect);
+      expect(handler).not.toHaveBeenCalled();
+    });
+    test('consumers should receive the Defect same as the awaited result', async () => {
+      const error = jest.fn((e: string | Defect) => e);
+      expect(
+        await defective().match({ ok: String, err: error }),
+      ).toBeInstanceOf(Defect);
+      expect(await defective().unwrapOrElse(error)).toBeInstanceOf(Defect);
+      expect(error).toHaveBeenCalledTimes(2);
+      expect(await defective().unwrapOr(0)).toBe(0);
+      const awaited = await defective();
+      expect(awaited.mapErr((e) => e).unwrapErr()).toBeInstanceOf(Defect);
+    });
+    test('matchErr() should require a handler for Defect', async () => {
+      type Db = { type: 'db' };
+      const r = ok<number, Db>(1)
+        .toAsync()
+        .map((): number => {
+          throw new TypeError('bug');
+        });
+      expect(await r.matchErr({ db: () => 'db', defect: (d) => d.type })).toBe(
+        'defect',
+      );
+      // @ts-expect-error Defect should be handled
+      await expect(r.matchErr({ db: () => 'db' })).rejects.toMatchObject({
+        name: 'ResultError',
+        cause: expect.any(Defect),
+      });
+    });
+    test('should detect Defect created by another copy of this library', async () => {
+      const foreign = Object.assign(new Error('foreign'), {
+        [Symbol.for('@reismannnr2/async-result/ResultError')]: true,
+        type: 'defect',
+      });
+      const handler = jest.fn(() => err('handled'));
+      const r = new AsyncResult<number, string>(Promise.reject(foreign));
+      expect(await r.orElse(handler).unwrapErr()).toBe(foreign);
+      expect(handler).not.toHaveBeenCalled();
+    });
+    test('catchDefect() should recover only Err<Defect>', async () => {
+      const r: AsyncResult<number, string> = defective().catchDefect((d) =>
+        ok(d.message.length),
+      );
+      expect(await r.unwrap()).toBeGreaterThan(0);
+      expect(await rErr.catchDefect(() => ok(0)).unwrapErr()).toBe('error');
+    });
+    test('onDefect() should report every defect once', async () => {
+      const hook = jest.fn(() => {
+        throw 'ignored';
+      });
+      onDefect(hook);
+      const r = defective().map((v) => v + 1);
+      expect(await r.unwrapErr()).toBeInstanceOf(Defect);
+      expect(hook).toHaveBeenCalledTimes(1);
+      expect(hook).toHaveBeenCalledWith(await r.unwrapErr());
+    });
+  });
 });
@@ -0,0 +1,90 @@
+import { Decoder } from '../src/decoder';
+import { none, Option } from '../src/option';
+import { ok, Result } from '../src/result';
+
+describe('Decoder<T>', () => {
+  test('primitive decoders should check type of input', () => {
+    expect(Decoder.string.decode('a').unwrap()).toBe('a');
+    expect(Decoder.number.decode(1).unwrap()).toBe(1);
+    expect(Decoder.boolean.decode(false).unwrap()).toBe(false);
+    expect(Decoder.number.decode(NaN).unwrapErr()).toEqual([
+      { path: '$', message: 'expected number' },
+    ]);
+    expect(Decoder.string.decode(1).unwrapErr()).toEqual([
+      { path: '$', message: 'expected string' },
+    ]);
+  });
+  test('object() and array() should collect all errors with paths', () => {
+    const user = Decoder.object({
+      name: Decoder.string,
+      tags: Decoder.array(Decoder.string),
+      'first-login': Decoder.number,
+    });
+    const decoded: Result<
+      { name: string; tags: string[]; 'first-login': number },
+      unknown
+    > = user.decode({ name: 'a', tags: ['x'], 'first-login': 1, extra: 1 });
+    expect(decoded.unwrap()).toEqual({
+      name: 'a',
+      tags: ['x'],
+      'first-login': 1,
+    });
+    expect(user.decode({ name: 1, tags: ['x', 2, 3] }).unwrapErr()).toEqual([
+      { path: '$.name', message: 'expected string' },
+      { path: '$.tags[1]', message: 'expected string' },
+      { path: '$.tags[2]', message: 'expected string' },
+      { path: '$["first-login"]', message: 'expected number' },
+    ]);
+    expect(user.decode([]).unwrapErr()).toEqual([
+      { path: '$', message: 'expected object' },
+    ]);
+    expect(Decoder.array(Decoder.number).decode({}).unwrapErr()).toEqual([
+      { path: '$', message: 'expected array' },
+    ]);
+  });
+  test('union() should return the first success or all errors', () => {
+    const id: Decoder<string | number> = Decoder.union(
+      Decoder.string,
+      Decoder.number,
+    );
+    expect(id.decode(1).unwrap()).toBe(1);
+    expect(id.decode(true).unwrapErr()).toEqual([
+      { path: '$', message: 'expected string' },
+      { path: '$', message: 'expected number' },
+    ]);
+    const single: Decoder<string> = Decoder.union(Decoder.string);
+    expect(single.decode('a').unwrap()).toBe('a');
+    // @ts-expect-error at least one decoder is required
+    Decoder.union();
+  });
+  test('optional() should decode missing value into none', () => {
+    const decoder = Decoder.object({ age: Decoder.optional(Decoder.number) });
+    const absent: Result<{ age: Option<number> }, unknown> = decoder.decode({});
+    expect(absent.unwrap().age).toBe(none());
+    expect(decoder.decode({ age: null }).unwrap().age).toBe(none());
+    expect(decoder.decode({ age: 3 }).unwrap().age.unwrap()).toBe(3);
+    expect(decoder.decode({ age: '3' }).unwrapErr()).toEqual([
+      { path: '$.age', message: 'expected number' },
+    ]);
+  });
+  test('refine() and map() should check and transform decoded value', () => {
+    const positive = Decoder.number.refine((v) => v > 0, 'expected positive');
+    expect(positive.decode(1).unwrap()).toBe(1);
+    expect(Decoder.array(positive).decode([1, -1]).unwrapErr()).toEqual([
+      { path: '$[1]', message: 'expected positive' },
+    ]);
+    expect(
+      Decoder.string
+        .map((s) => s.length)
+        .decode('abc')
+        .unwrap(),
+    ).toBe(3);
+  });
+  test('decode can be passed to andThen() directly', () => {
+    expect(
+      ok<unknown, never>({ name: 'a' })
+        .andThen(Decoder.object({ name: Decoder.string }).decode)
+        .unwrap(),
+    ).toEqual({ name: 'a' });
+  });
+});
@@ -0,0 +1,75 @@
+import { err, ok, Result } from '../src/result';
+import { none, Option, some } from '../src/option';
+
+describe('equality', () => {
+  test('equals() on results should compare states and inner values', () => {
+    const a: Result<number, string> = ok(1);
+    expect(a.equals(ok(1))).toBe(true);
+    expect(a.equals(ok(2))).toBe(false);
+    expect(a.equals(err('1'))).toBe(false);
+    expect(err<string, number>('e').equals(err('e'))).toBe(true);
+    expect(ok(NaN).equals(ok(NaN))).toBe(true);
+    expect(ok({ id: 1 }).equals(ok({ id: 1 }))).toBe(false);
+    expect(ok({ id: 1 }).equals(ok({ id: 1 }), (x, y) => x.id === y.id)).toBe(
+      true,
+    );
+    expect(
+      err<{ code: number }, number>({ code: 1 }).equals(
+        err({ code: 1 }),
+        undefined,
+        (x, y) => x.code === y.code,
+      ),
+    ).toBe(true);
+  });
+  test('equals() should compare nested results and options structurally', () => {
+    expect(ok(some(1)).equals(ok(some(1)))).toBe(true);
+    expect(some(ok(1)).equals(some(ok(1)))).toBe(true);
+    const nested: Option<Result<number, string>> = some(ok(1));
+    expect(nested.equals(some(err('1')))).toBe(false);
+  });
+  test('equals() on options should compare states and inner values', () => {
+    const a: Option<number> = some(1);
+    expect(a.equals(some(1))).toBe(true);
+    expect(a.equals(none())).toBe(false);
+    expect(none().equals(none())).toBe(true);
+  });
+  test('compare() should order none before some', () => {
+    const options: Option<number>[] = [some(2), none(), some(1)];
+    expect(options.sort((a, b) => a.compare(b))).toEqual([
+      none(),
+      some(1),
+      some(2),
+    ]);
+    expect(some('b').compare(some('a'), (x, y) => y.localeCompare(x))).toBe(-1);
+  });
+  test('compare() should order ok before err unless errFirst', () => {
+    const results: Result<number, string>[] = [
+      err('b'),
+      ok(2),
+      err('a'),
+      ok(1),
+    ];
+    expect([...results].sort((a, b) => a.compare(b))).toEqual([
+      ok(1),
+      ok(2),
+      err('a'),
+      err('b'),
+    ]);
+    expect(
+      [...results].sort((a, b) =>
+        a.compare(b, { errFirst: true, error: (x, y) => y.localeCompare(x) }),
+      ),
+    ).toEqual([err('b'), err('a'), ok(1), ok(2)]);
+  });
+  test('hash() should be consistent with equals()', () => {
+    expect(ok(1).hash()).toBe(ok(1).hash());
+    expect(ok(1).hash()).not.toBe(err(1).hash());
+    expect(some('a').hash()).toBe(some('a').hash());
+    expect(some(1).hash()).not.toBe(some('1').hash());
+    expect(none().hash()).toBe(none().hash());
+    expect(ok(some([1, 2])).hash()).toBe(ok(some([1, 2])).hash());
+    expect(ok({ id: 1 }).hash((v) => v.id)).toBe(
+      ok({ id: 1 }).hash((v) => v.id),
+    );
+  });
+});
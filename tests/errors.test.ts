@@ -0,0 +1,49 @@
+import { err, ok } from '../src/result';
+import { none } from '../src/option';
+import { ResultError, UnwrapError, UnwrapNoneError } from '../src/errors';
+
+describe('ResultError', () => {
+  test('unwrap() on Err should throw UnwrapError with inner error as cause', () => {
+    const cause = new TypeError('invalid');
+    try {
+      err(cause).unwrap();
+      fail('should throw');
+    } catch (e) {
+      expect(e).toBeInstanceOf(UnwrapError);
+      expect(e).toBeInstanceOf(ResultError);
+      expect(e).toMatchObject({
+        name: 'UnwrapError',
+        message: 'Cannot unwrap Err: TypeError: invalid',
+        cause,
+      });
+    }
+  });
+  test('unwrapErr() on Ok should throw UnwrapError with inner value as cause', () => {
+    expect(() => ok({ id: 1 }).unwrapErr()).toThrow(
+      'Cannot unwrapErr from Ok: {"id":1}',
+    );
+  });
+  test('unwrap() on None should throw UnwrapNoneError', () => {
+    expect(() => none().unwrap()).toThrow(UnwrapNoneError);
+  });
+  test('async unwrap should reject with the same errors', async () => {
+    await expect(err('error').toAsync().unwrap()).rejects.toMatchObject({
+      cause: 'error',
+    });
+    await expect(ok(1).toAsync().unwrapErr()).rejects.toBeInstanceOf(
+      UnwrapError,
+    );
+    await expect(none().toAsync().unwrap()).rejects.toBeInstanceOf(
+      UnwrapNoneError,
+    );
+  });
+  test('isResultError() should detect errors by brand', () => {
+    expect(ResultError.isResultError(new UnwrapNoneError())).toBe(true);
+    expect(ResultError.isResultError(new Error())).toBe(false);
+    expect(ResultError.isResultError(null)).toBe(false);
+    const foreign = Object.assign(new Error(), {
+      [Symbol.for('@reismannnr2/async-result/ResultError')]: true,
+    });
+    expect(ResultError.isResultError(foreign)).toBe(true);
+  });
+});
@@ -0,0 +1,71 @@
+import { none, Option, some } from '../src/option';
+import { ok, Result } from '../src/result';
+import { jsonReviver } from '../src/json';
+import {
+  at,
+  findLastOption,
+  findOption,
+  getOption,
+  parseFloat,
+  parseInt,
+  parseJson,
+} from '../src/helpers';
+
+describe('helpers', () => {
+  test('getOption() should distinguish missing keys from undefined values', () => {
+    const map = new Map<string, number | undefined>([
+      ['a', 1],
+      ['b', undefined],
+    ]);
+    expect(getOption(map, 'a').unwrap()).toBe(1);
+    expect(getOption(map, 'b')).toEqual(some(undefined));
+    expect(getOption(map, 'c')).toBe(none());
+    const key = {};
+    expect(getOption(new WeakMap([[key, 'v']]), key).unwrap()).toBe('v');
+  });
+  test('at() should return the element if in range', () => {
+    const array = [1, 2, 3];
+    expect(at(array, 0).unwrap()).toBe(1);
+    expect(at(array, -1).unwrap()).toBe(3);
+    expect(at(array, 3)).toBe(none());
+    expect(at(array, -4)).toBe(none());
+    expect(at(array, 0.5)).toBe(none());
+    expect(at('abc', 1).unwrap()).toBe('b');
+  });
+  test('findOption() and findLastOption() should return matched element', () => {
+    const values: (string | number)[] = [1, 'a', 2, 'b'];
+    const first: Option<string> = findOption(
+      values,
+      (v): v is string => typeof v === 'string',
+    );
+    expect(first.unwrap()).toBe('a');
+    expect(findLastOption(values, (v) => typeof v === 'number').unwrap()).toBe(
+      2,
+    );
+    expect(findOption(values, (v, i) => i > 3)).toBe(none());
+    expect(findLastOption([], () => true)).toBe(none());
+  });
+  test('parseInt() and parseFloat() should return none instead of NaN', () => {
+    expect(parseInt('42px').unwrap()).toBe(42);
+    expect(parseInt('010').unwrap()).toBe(10);
+    expect(parseInt('ff', 16).unwrap()).toBe(255);
+    expect(parseInt('abc')).toBe(none());
+    expect(parseFloat('1.5e3').unwrap()).toBe(1500);
+    expect(parseFloat('.')).toBe(none());
+  });
+  test('parseJson() should return Err<SyntaxError> for invalid JSON', () => {
+    const parsed: Result<unknown, SyntaxError> = parseJson('{"a":1}');
+    expect(parsed.unwrap()).toEqual({ a: 1 });
+    expect(parseJson('{').unwrapErr()).toBeInstanceOf(SyntaxError);
+    expect(parseJson(JSON.stringify([ok(1)]), jsonReviver).unwrap()).toEqual([
+      ok(1),
+    ]);
+  });
+  test('parseJson() should not catch exceptions thrown by the reviver', () => {
+    const error = new TypeError('reviver');
+    const reviver = () => {
+      throw error;
+    };
+    expect(() => parseJson('{"a":1}', reviver)).toThrow(error);
+  });
+});
@@ -0,0 +1,67 @@
+import { err, ok, Result } from '../src/result';
+import { none, Option, some } from '../src/option';
+import { jsonReviver } from '../src/json';
+
+describe('JSON serialization', () => {
+  test('toJSON() should return tagged plain objects', () => {
+    expect(JSON.stringify(ok(1))).toBe('{"tag":"ok","value":1}');
+    expect(JSON.stringify(err('e'))).toBe('{"tag":"err","error":"e"}');
+    expect(JSON.stringify(some([1]))).toBe('{"tag":"some","value":[1]}');
+    expect(JSON.stringify(none())).toBe('{"tag":"none"}');
+  });
+  test('Result.fromJSON() should restore serialized result', () => {
+    expect(Result.fromJSON({ tag: 'ok', value: 1 }).unwrap().unwrap()).toBe(1);
+    expect(
+      Result.fromJSON({ tag: 'err', error: 'e' }).unwrap().unwrapErr(),
+    ).toBe('e');
+    const restored = Result.fromJSON(JSON.parse(JSON.stringify(ok())));
+    expect(restored.unwrap().unwrap()).toBeUndefined();
+  });
+  test('Result.fromJSON() should return Err for invalid input', () => {
+    expect(Result.fromJSON({ tag: 'ok', value: 1, x: 1 }).unwrapErr()).toEqual(
+      expect.any(TypeError),
+    );
+    expect(Result.fromJSON(null).isErr).toBe(true);
+    expect(Result.fromJSON([]).isErr).toBe(true);
+  });
+  test('Result.fromJSON() should check inner value and error with validators', () => {
+    const isNumber = (v: unknown): v is number => typeof v === 'number';
+    const isString = (v: unknown): v is string => typeof v === 'string';
+    const r: Result<Result<number, string>, TypeError> = Result.fromJSON(
+      { tag: 'ok', value: 1 },
+      { value: isNumber, error: isString },
+    );
+    expect(r.unwrap().unwrap()).toBe(1);
+    expect(
+      Result.fromJSON({ tag: 'ok', value: '1' }, { value: isNumber }).isErr,
+    ).toBe(true);
+    expect(
+      Result.fromJSON({ tag: 'err', error: 1 }, { error: isString }).isErr,
+    ).toBe(true);
+  });
+  test('Option.fromJSON() should restore serialized option', () => {
+    const isNumber = (v: unknown): v is number => typeof v === 'number';
+    const op: Result<Option<number>, TypeError> = Option.fromJSON(
+      { tag: 'some', value: 1 },
+      isNumber,
+    );
+    expect(op.unwrap().unwrap()).toBe(1);
+    expect(Option.fromJSON({ tag: 'some', value: '1' }, isNumber).isErr).toBe(
+      true,
+    );
+    expect(Option.fromJSON({ tag: 'none' }).unwrap()).toBe(none());
+    expect(Option.fromJSON({ tag: 'none', value: 1 }).isErr).toBe(true);
+  });
+  test('jsonReviver should restore results and options in nested payload', () => {
+    const payload = {
+      a: ok(some(1)),
+      b: [err({ type: 'error' }), none()],
+      c: { tag: 'other' },
+    };
+    const revived = JSON.parse(JSON.stringify(payload), jsonReviver);
+    expect(revived.a.unwrap().unwrap()).toBe(1);
+    expect(revived.b[0].unwrapErr()).toEqual({ type: 'error' });
+    expect(revived.b[1]).toBe(none());
+    expect(revived.c).toEqual({ tag: 'other' });
+  });
+});
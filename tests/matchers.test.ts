@@ -0,0 +1,40 @@
+import { err, ok } from '../src/result';
+import { none, some } from '../src/option';
+import { resultMatchers } from '../testing';
+
+expect.extend(resultMatchers);
+
+describe('result matchers', () => {
+  test('toBeOk() and toBeErr() should check the variant and inner value', () => {
+    expect(ok(1)).toBeOk();
+    expect(ok({ id: 1 })).toBeOk({ id: 1 });
+    expect(ok(1)).not.toBeOk(2);
+    expect(ok(1)).not.toBeErr();
+    expect(err('error')).toBeErr('error');
+    expect(err(new TypeError('e'))).toBeErr(expect.any(TypeError));
+    expect(some(1)).not.toBeOk();
+  });
+  test('toBeSome() and toBeNone() should check the variant and inner value', () => {
+    expect(some([1])).toBeSome([1]);
+    expect(some(1)).not.toBeSome(2);
+    expect(none()).toBeNone();
+    expect(some(1)).not.toBeNone();
+    expect(null).not.toBeNone();
+  });
+  test('async matchers should await AsyncResult, AsyncOption and promises', async () => {
+    await expect(ok(1).toAsync()).toResolveOk(1);
+    await expect(err('e').toAsync()).toResolveErr('e');
+    await expect(Promise.resolve(ok(1))).not.toResolveErr();
+    await expect(some(1).toAsync()).toResolveSome(1);
+    await expect(none().toAsync()).toResolveNone();
+    await expect(Promise.resolve(ok(1))).resolves.toBeOk(1);
+  });
+  test('failure message should show the received variant', () => {
+    expect(() => expect(err('boom')).toBeOk(1)).toThrow(
+      /Received: Err\(.*"boom"/,
+    );
+    expect(() => expect(ok({ a: 1 })).toBeOk({ a: 2 })).toThrow(/- Expected/);
+    expect(() => expect(42).toBeSome()).toThrow(/neither Result nor Option/);
+    expect(() => expect(none()).not.toBeNone()).toThrow(/Expected: not None/);
+  });
+});
@@ -1,4 +1,5 @@
-import { none, some } from '../src/option';
+import { none, Option, some } from '../src/option';
+import { err, ok, Result } from '../src/result';
 
 describe('Option<T>', () => {
   describe('Some<T>', () => {
@@ -99,13 +100,11 @@ describe('Option<T>', () => {
       const asyncOp = op.toAsync();
       expect(await asyncOp.promise).toBe(op);
     });
-    test('can iterate inner value', () => {
-      const mock = jest.fn();
-      for (const inner of op) {
-        expect(inner).toBe(raw);
-        mock();
-      }
-      expect(mock).toHaveBeenCalledTimes(1);
+    test('iterator returns inner value without yielding', () => {
+      const iterator = op[Symbol.iterator]();
+      const step = iterator.next();
+      expect(step.done).toBe(true);
+      expect(step.value).toBe(raw);
     });
     test('toResult() should return Promise of Ok', async () => {
       expect(op.toResult(() => 'error').unwrap()).toEqual({
@@ -117,6 +116,13 @@ describe('Option<T>', () => {
         v: 6,
       });
     });
+    test('inspect() and tap() should call given function and return itself', async () => {
+      const f = jest.fn();
+      expect(op.inspect(f)).toBe(op);
+      expect(await op.tap(f)).toBe(op);
+      expect(f).toHaveBeenCalledTimes(2);
+      expect(f).toHaveBeenLastCalledWith(raw);
+    });
   });
 });
 
@@ -127,6 +133,12 @@ describe('None', () => {
   test('throw if unwrapped', () => {
     expect(() => none().unwrap()).toThrow();
   });
+  test('expect() should throw with given message', () => {
+    expect(() => none().expect('user should exist')).toThrow(
+      'user should exist',
+    );
+    expect(some(10).expect('unused')).toBe(10);
+  });
   test('unwrapOr /-Else should return (result of) given value/function instead of inner', () => {
     expect(none().unwrapOr(10)).toBe(10);
     expect(none().unwrapOrElse(() => 15)).toBe(15);
@@ -185,12 +197,12 @@ describe('None', () => {
     const asyncOp = none().toAsync();
     expect(await asyncOp.promise).toBe(none());
   });
-  test('can iterate inner value', () => {
-    const mock = jest.fn();
-    for (const inner of none()) {
-      mock();
-    }
-    expect(mock).toHaveBeenCalledTimes(0);
+  test('iterator yields none once', () => {
+    const iterator = none()[Symbol.iterator]();
+    const step = iterator.next();
+    expect(step.done).toBe(false);
+    expect(step.value).toBe(none());
+    expect(iterator.next().done).toBe(true);
   });
   test('toResult() should return Promise of Err', async () => {
     expect(
@@ -199,9 +211,144 @@ describe('None', () => {
         .unwrapErr(),
     ).toBe('error');
   });
+  test('inspect() and tap() should not call given function', async () => {
+    const f = jest.fn();
+    expect(none().inspect(f)).toBe(none());
+    expect(await none().tap(f)).toBe(none());
+    expect(f).not.toHaveBeenCalled();
+  });
   test('toResultAsync() should return Promise of Err', async () => {
     expect((await none().toResultAsync(() => 'error')).unwrapErr()).toBe(
       'error',
     );
   });
 });
+
+describe('Option.gen()', () => {
+  test('should return some with returned value if every option is some', () => {
+    const op = Option.gen(function* () {
+      const a = yield* some(10);
+      const b = yield* some('b');
+      return b.repeat(a / 5);
+    });
+    expect(op.unwrap()).toBe('bb');
+  });
+  test('should stop at the first none and return none', () => {
+    const after = jest.fn();
+    const cleanup = jest.fn();
+    const op = Option.gen(function* () {
+      try {
+        const a = yield* some(10);
+        const b = yield* none<number>();
+        after();
+        return a + b;
+      } finally {
+        cleanup();
+      }
+    });
+    expect(op).toBe(none());
+    expect(after).not.toHaveBeenCalled();
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Option collection helpers', () => {
+  test('Option.all() should return some with tuple or record if all are some', () => {
+    const tuple: Option<[number, string]> = Option.all([some(1), some('a')]);
+    expect(tuple.unwrap()).toEqual([1, 'a']);
+    const record: Option<{ a: number; b: string }> = Option.all({
+      a: some(1),
+      b: some('b'),
+    });
+    expect(record.unwrap()).toEqual({ a: 1, b: 'b' });
+    expect(Option.all([some(1), none<string>()])).toBe(none());
+  });
+  test('Option.firstSome() should return the first some', () => {
+    const first = some(2);
+    expect(Option.firstSome([none<number>(), first, some(3)])).toBe(first);
+    expect(Option.firstSome([none(), none()])).toBe(none());
+  });
+  test('Option.compact() should drop none', () => {
+    const values: number[] = Option.compact([some(1), none(), some(3)]);
+    expect(values).toEqual([1, 3]);
+  });
+});
+
+describe('nested options', () => {
+  test('flatten() should unwrap one level of nesting', () => {
+    const nested: Option<Option<number>> = some(some(10));
+    expect(nested.flatten().unwrap()).toBe(10);
+    expect(some(none()).flatten()).toBe(none());
+    expect(none<Option<number>>().flatten()).toBe(none());
+  });
+  test('transpose() should convert Option<Result> into Result<Option>', () => {
+    const op: Option<Result<number, string>> = some(ok(10));
+    const transposed: Result<Option<number>, string> = op.transpose();
+    expect(transposed.unwrap().unwrap()).toBe(10);
+    expect(some(err('error')).transpose().unwrapErr()).toBe('error');
+    expect(none<Result<number, string>>().transpose().unwrap()).toBe(none());
+  });
+});
+
+describe('nullable bridges', () => {
+  type User = {
+    name: string;
+    profile?: { address: { city: string | null } | null };
+    tags: string[];
+  };
+  const user: User = {
+    name: 'alice',
+    profile: { address: { city: 'Tokyo' } },
+    tags: ['admin'],
+  };
+  test('from() should return none only for null or undefined', () => {
+    const maybe = null as string | null;
+    const o: Option<string> = Option.from(maybe);
+    expect(o).toBe(none());
+    expect(Option.from(undefined)).toBe(none());
+    expect(Option.from(0).unwrap()).toBe(0);
+    expect(Option.from('').unwrap()).toBe('');
+  });
+  test('fromFalsy() should return none for falsy values', () => {
+    const o: Option<string | true> = Option.fromFalsy(
+      'a' as string | boolean | 0,
+    );
+    expect(o.unwrap()).toBe('a');
+    expect(Option.fromFalsy(0)).toBe(none());
+    expect(Option.fromFalsy('')).toBe(none());
+    expect(Option.fromFalsy(NaN)).toBe(none());
+  });
+  test('fromPredicate() should narrow by type guard', () => {
+    const value = 'a' as string | number;
+    const o: Option<string> = Option.fromPredicate(
+      value,
+      (v): v is string => typeof v === 'string',
+    );
+    expect(o.unwrap()).toBe('a');
+    expect(Option.fromPredicate(1, (v) => v > 1)).toBe(none());
+  });
+  test('toNullable() and toUndefined() should return the inner value or empty', () => {
+    const nullable: number | null = some(1).toNullable();
+    expect(nullable).toBe(1);
+    expect(none().toNullable()).toBeNull();
+    const undef: number | undefined = none<number>().toUndefined();
+    expect(undef).toBeUndefined();
+    expect(some(1).toUndefined()).toBe(1);
+  });
+  test('path() should access nested properties safely', () => {
+    const city: Option<string> = Option.path(
+      user,
+      'profile',
+      'address',
+      'city',
+    );
+    expect(city.unwrap()).toBe('Tokyo');
+    const anonymous: User = { ...user, profile: undefined };
+    expect(Option.path(anonymous, 'profile', 'address')).toBe(none());
+    expect(Option.path(user, 'tags', 0).unwrap()).toBe('admin');
+    expect(Option.path(user, 'tags', 1)).toBe(none());
+    expect(Option.path(user).unwrap()).toBe(user);
+    // @ts-expect-error unknown key
+    Option.path(user, 'profile', 'street');
+  });
+});
@@ -0,0 +1,54 @@
+import { err, ok, Result } from '../src/result';
+import { none, Option, some } from '../src/option';
+import { ResultMap } from '../src/result-map';
+
+describe('ResultMap', () => {
+  test('should treat structurally equal results as the same key', () => {
+    const map = new ResultMap<Result<number, string>, string>([
+      [ok(1), 'one'],
+      [err('e'), 'error'],
+    ]);
+    expect(map.get(ok(1)).unwrap()).toBe('one');
+    expect(map.get(err('e')).unwrap()).toBe('error');
+    expect(map.get(ok(2))).toBe(none());
+    map.set(ok(1), 'uno');
+    expect(map.size).toBe(2);
+    expect(map.get(ok(1)).unwrap()).toBe('uno');
+  });
+  test('should dedupe options and nested values', () => {
+    const map = new ResultMap<Option<Result<number, string>>, number>();
+    map
+      .set(some(ok(1)), 1)
+      .set(some(ok(1)), 2)
+      .set(none(), 3);
+    expect(map.size).toBe(2);
+    expect([...map.values()]).toEqual([2, 3]);
+    expect([...map.keys()]).toEqual([some(ok(1)), none()]);
+  });
+  test('delete() and clear() should remove entries', () => {
+    const map = new ResultMap<Option<number>, string>([[some(1), 'a']]);
+    expect(map.has(some(1))).toBe(true);
+    expect(map.delete(some(2))).toBe(false);
+    expect(map.delete(some(1))).toBe(true);
+    expect(map.has(some(1))).toBe(false);
+    expect(map.size).toBe(0);
+    map.set(none(), 'b');
+    map.clear();
+    expect([...map]).toEqual([]);
+  });
+  test('should keep colliding keys apart', () => {
+    const key = (id: number) => ({
+      id,
+      equals: (other: { id: number }) => other.id === id,
+      hash: () => 0,
+    });
+    const map = new ResultMap([
+      [key(1), 'a'],
+      [key(2), 'b'],
+    ]);
+    expect(map.size).toBe(2);
+    expect(map.get(key(2)).unwrap()).toBe('b');
+    expect(map.delete(key(1))).toBe(true);
+    expect(map.get(key(2)).unwrap()).toBe('b');
+  });
+});
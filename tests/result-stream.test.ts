@@ -0,0 +1,104 @@
+import { err, ok, Result } from '../src/result';
+import { AsyncResult } from '../src/async-result';
+import { ResultStream } from '../src/result-stream';
+import { Defect } from '../src/errors';
+
+async function* pages(count: number) {
+  for (let i = 1; i <= count; i++) {
+    yield i;
+  }
+}
+
+async function toArray<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ResultStream<T, E>', () => {
+  const mixed = () =>
+    ResultStream.fromResults<number, string>([
+      ok(1),
+      err('a'),
+      ok(3),
+      err('b'),
+    ]);
+  test('from() should wrap each item in Ok', async () => {
+    expect(await toArray(ResultStream.from(pages(2)))).toEqual([ok(1), ok(2)]);
+  });
+  test('map(), mapErr() and andThen() should transform each result', async () => {
+    const stream: ResultStream<string, string | boolean> = mixed()
+      .map((v) => v * 2)
+      .mapErr((e) => e.toUpperCase())
+      .andThen((v) => (v > 5 ? err(false) : ok(`${v}`)));
+    expect(await toArray(stream)).toEqual([
+      ok('2'),
+      err('A'),
+      err(false),
+      err('B'),
+    ]);
+  });
+  test('andThen() should accept AsyncResult', async () => {
+    const stream = ResultStream.from(pages(2)).andThen((v) =>
+      ok(v + 1).toAsync(),
+    );
+    expect(await stream.collect().unwrap()).toEqual([2, 3]);
+  });
+  test('should run at most given number of transforms at once in order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const stream = ResultStream.from(pages(6)).map(async (v) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await wait((6 - v) * 5);
+      running--;
+      return v;
+    }, 3);
+    expect(await stream.collect().unwrap()).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(maxRunning).toBe(3);
+    expect(() => mixed().map((v) => v, 0)).toThrow(RangeError);
+  });
+  test('should turn exceptions in callbacks into Err<Defect>', async () => {
+    const [, errors] = await ResultStream.from(pages(1))
+      .map(() => {
+        throw new Error('bug');
+      })
+      .partition();
+    expect(errors[0]).toBeInstanceOf(Defect);
+  });
+  test('takeUntilErr() should stop after the first Err', async () => {
+    expect(await toArray(mixed().takeUntilErr())).toEqual([ok(1), err('a')]);
+  });
+  test('collect() should return the first Err without iterating the rest', async () => {
+    const visited: number[] = [];
+    const source = ResultStream.from(pages(5)).andThen((v) => {
+      visited.push(v);
+      return v === 2 ? err('stop') : ok(v);
+    });
+    const collected: AsyncResult<number[], string> = source.collect();
+    expect(await collected.unwrapErr()).toBe('stop');
+    expect(visited).toEqual([1, 2]);
+    expect(await ResultStream.from(pages(3)).collect().unwrap()).toEqual([
+      1, 2, 3,
+    ]);
+  });
+  test('partition() should split values and errors in order', async () => {
+    const partitioned: [number[], (string | Defect)[]] =
+      await mixed().partition();
+    expect(partitioned).toEqual([
+      [1, 3],
+      ['a', 'b'],
+    ]);
+  });
+  test('should be iterated as AsyncIterable of results', async () => {
+    const results: Result<number, string | Defect>[] = [];
+    for await (const r of mixed()) {
+      results.push(r);
+    }
+    expect(results).toHaveLength(4);
+  });
+});
@@ -1,16 +1,13 @@
 import { err, ok, Result } from '../src/result';
-import { none } from '../src/option';
+import { none, Option, some } from '../src/option';
+import { Defect, ResultError } from '../src/errors';
 
 describe('Result<T, E>', () => {
   describe('Ok<T>', () => {
     const r = ok<number, string>(10);
-    test('can iterate', () => {
-      const mock = jest.fn();
-      for (const v of r) {
-        expect(v).toBe(10);
-        mock();
-      }
-      expect(mock).toHaveBeenCalledTimes(1);
+    test('iterator returns inner value without yielding', () => {
+      const iterator = r[Symbol.iterator]();
+      expect(iterator.next()).toEqual({ done: true, value: 10 });
     });
     test('can unwrap but cannot unwrapErr', () => {
       expect(r.unwrap()).toBe(10);
@@ -75,19 +72,59 @@ describe('Result<T, E>', () => {
     test('always() returns itself', () => {
       expect(r.always()).toBe(r);
     });
+    test('inspect() and tap() should call given function and return itself', async () => {
+      const f = jest.fn();
+      expect(r.inspect(f)).toBe(r);
+      expect(f).toHaveBeenLastCalledWith(10);
+      expect(r.inspectErr(f)).toBe(r);
+      expect(f).toHaveBeenCalledTimes(1);
+      let done = false;
+      expect(
+        await r.tap(async () => {
+          done = true;
+        }),
+      ).toBe(r);
+      expect(done).toBe(true);
+      expect(await r.tapErr(f)).toBe(r);
+      expect(f).toHaveBeenCalledTimes(1);
+    });
+    test('inspect() and tap() should not catch thrown error', async () => {
+      const o = {};
+      const thrower = () => {
+        throw o;
+      };
+      expect(() => r.inspect(thrower)).toThrow();
+      await expect(r.tap(thrower)).rejects.toBe(o);
+    });
   });
   describe('Err<E>', () => {
     const r = err<string, number>('error');
-    test('can iterate but nothing happen', () => {
-      const mock = jest.fn();
-      for (const _ of r) {
-        mock();
-      }
-      expect(mock).not.toHaveBeenCalled();
+    test('iterator yields itself once', () => {
+      const iterator = r[Symbol.iterator]();
+      const step = iterator.next();
+      expect(step.done).toBe(false);
+      expect(step.value).toBe(r);
+      expect(iterator.next().done).toBe(true);
     });
     test('cannot unwrap', () => {
       expect(() => r.unwrap()).toThrow();
     });
+    test('expect() should throw with given message and inner error', () => {
+      expect(() => r.expect('config should be loaded')).toThrow(
+        'config should be loaded: "error"',
+      );
+      expect(r.expectErr('unused')).toBe('error');
+      expect(ok(10).expect('unused')).toBe(10);
+      expect(() => ok({ id: 1 }).expectErr('should fail')).toThrow(
+        'should fail: {"id":1}',
+      );
+    });
+    test('unwrapOrThrow() should throw the result of given function', () => {
+      expect(() => r.unwrapOrThrow((e) => new RangeError(e))).toThrow(
+        RangeError,
+      );
+      expect(ok(10).unwrapOrThrow(() => new RangeError())).toBe(10);
+    });
     test('can unwrapErr()', () => {
       expect(r.unwrapErr()).toBe('error');
     });
@@ -148,6 +185,15 @@ describe('Result<T, E>', () => {
     test('never() returns just itself', () => {
       expect(r.never()).toBe(r);
     });
+    test('inspectErr() and tapErr() should call given function and return itself', async () => {
+      const f = jest.fn();
+      expect(r.inspectErr(f)).toBe(r);
+      expect(f).toHaveBeenLastCalledWith('error');
+      expect(r.inspect(f)).toBe(r);
+      expect(await r.tapErr(f)).toBe(r);
+      expect(await r.tap(f)).toBe(r);
+      expect(f).toHaveBeenCalledTimes(2);
+    });
   });
   describe('Result.try()', () => {
     test('should return just result of given function wrapped in ok', () => {
@@ -162,4 +208,187 @@ describe('Result<T, E>', () => {
       ).toBe(o);
     });
   });
+  describe('Result.gen()', () => {
+    test('should return Ok with returned value if every result is ok', () => {
+      const r = Result.gen(function* () {
+        const a = yield* ok<number, string>(10);
+        const b = yield* ok<number, boolean>(20);
+        return a + b;
+      });
+      expect(r.unwrap()).toBe(30);
+    });
+    test('should stop at the first Err and return it', () => {
+      const failed = err<string, number>('error');
+      const after = jest.fn();
+      const cleanup = jest.fn();
+      const r: Result<number, string | boolean> = Result.gen(function* () {
+        try {
+          const a = yield* ok<number, boolean>(10);
+          const b = yield* failed;
+          after();
+          return a + b;
+        } finally {
+          cleanup();
+        }
+      });
+      expect(r).toBe(failed);
+      expect(after).not.toHaveBeenCalled();
+      expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+  });
+  describe('Result.all()', () => {
+    test('should return Ok with tuple of inner values if all are ok', () => {
+      const r: Result<[number, string], boolean | string> = Result.all([
+        ok<number, boolean>(1),
+        ok<string, string>('a'),
+      ]);
+      expect(r.unwrap()).toEqual([1, 'a']);
+      expect(Result.all([]).unwrap()).toEqual([]);
+    });
+    test('should return Ok with record of inner values if all are ok', () => {
+      const r: Result<{ a: number; b: string }, never> = Result.all({
+        a: ok(1),
+        b: ok('b'),
+      });
+      expect(r.unwrap()).toEqual({ a: 1, b: 'b' });
+    });
+    test('should return the first Err', () => {
+      const first = err('first');
+      expect(Result.all([ok(1), first, err('second')])).toBe(first);
+      expect(Result.all({ a: ok(1), b: first })).toBe(first);
+    });
+  });
+  describe('Result.any()', () => {
+    test('should return the first Ok', () => {
+      const first = ok(1);
+      expect(Result.any([err('a'), first, ok(2)])).toBe(first);
+    });
+    test('should return Err with all errors if none is ok', () => {
+      const r: Result<never, [string, number]> = Result.any([err('a'), err(1)]);
+      expect(r.unwrapErr()).toEqual(['a', 1]);
+    });
+  });
+  describe('Result.partition()', () => {
+    test('should split inner values and errors keeping order', () => {
+      const [values, errors]: [number[], string[]] = Result.partition([
+        ok(1),
+        err('a'),
+        ok<number, string>(2),
+        err<string, number>('b'),
+      ]);
+      expect(values).toEqual([1, 2]);
+      expect(errors).toEqual(['a', 'b']);
+    });
+  });
+  describe('Result.collectErrors()', () => {
+    test('should return Ok with inner values if all are ok', () => {
+      expect(Result.collectErrors({ a: ok(1), b: ok(2) }).unwrap()).toEqual({
+        a: 1,
+        b: 2,
+      });
+    });
+    test('should return Err with every error', () => {
+      const r: Result<[number, never, never], (string | number)[]> =
+        Result.collectErrors([ok(1), err('a'), err(2)]);
+      expect(r.unwrapErr()).toEqual(['a', 2]);
+    });
+  });
+  describe('nested results', () => {
+    test('flatten() should unwrap one level of nesting', () => {
+      const nested: Result<Result<number, string>, boolean> = ok(ok(10));
+      const flat: Result<number, string | boolean> = nested.flatten();
+      expect(flat.unwrap()).toBe(10);
+      const inner = err('inner');
+      expect(ok(inner).flatten()).toBe(inner);
+      const outer = err<boolean, Result<number, string>>(false);
+      expect(outer.flatten()).toBe(outer);
+      // @ts-expect-error only callable on nested result
+      ok(10).flatten();
+    });
+    test('transpose() should convert Result<Option> into Option<Result>', () => {
+      const r: Result<Option<number>, string> = ok(some(10));
+      const transposed: Option<Result<number, string>> = r.transpose();
+      expect(transposed.unwrap().unwrap()).toBe(10);
+      expect(ok(none()).transpose()).toBe(none());
+      const failed = err<string, Option<number>>('error');
+      expect(failed.transpose().unwrap()).toBe(failed);
+    });
+  });
+  describe('tagged errors', () => {
+    type NotFound = { type: 'not-found'; id: number };
+    type Timeout = { type: 'timeout'; ms: number };
+    const notFound = err<NotFound | Timeout, string>({
+      type: 'not-found',
+      id: 1,
+    });
+    const timeout = err<NotFound | Timeout, string>({
+      type: 'timeout',
+      ms: 100,
+    });
+    const handlers = {
+      'not-found': (e: NotFound) => `missing ${e.id}`,
+      timeout: (e: Timeout) => `timeout ${e.ms}`,
+    };
+    test('matchErr() should dispatch on type of inner error', () => {
+      expect(notFound.matchErr(handlers)).toBe('missing 1');
+      expect(timeout.matchErr(handlers)).toBe('timeout 100');
+      expect(ok<string, NotFound | Timeout>('value').matchErr(handlers)).toBe(
+        'value',
+      );
+      // @ts-expect-error every type should be handled
+      notFound.matchErr({ 'not-found': () => '' });
+    });
+    test('matchErr() and catchTag() should require every type of error to be tagged', () => {
+      const partial = err<NotFound | string, number>('error');
+      expect(() =>
+        // @ts-expect-error untagged error has no handler
+        partial.matchErr({ 'not-found': () => 0 }),
+      ).toThrow(ResultError);
+      expect(
+        // @ts-expect-error untagged error has no type
+        Result.try(() => err('error').matchErr({})).unwrapErr(),
+      ).toMatchObject({ name: 'ResultError', cause: 'error' });
+      const parsed = err({ type: 'unknown' }) as unknown as Result<
+        number,
+        NotFound
+      >;
+      expect(() => parsed.matchErr({ 'not-found': () => 0 })).toThrow(
+        'No handler for the type of error: {"type":"unknown"}',
+      );
+      // @ts-expect-error untagged error has no type
+      expect(partial.catchTag('not-found', () => ok(0))).toBe(partial);
+    });
+    test('catchTag() should recover only given type of error', () => {
+      const recovered: Result<string | number, Timeout> = notFound.catchTag(
+        'not-found',
+        (e) => ok(e.id),
+      );
+      expect(recovered.unwrap()).toBe(1);
+      const rest = timeout.catchTag('not-found', (e) => ok(e.id));
+      expect(rest).toBe(timeout);
+      const replaced: Result<string, Timeout | boolean> = notFound.catchTag(
+        'not-found',
+        () => err(false),
+      );
+      expect(replaced.unwrapErr()).toBe(false);
+      const value = ok<string, NotFound>('value');
+      expect(value.catchTag('not-found', () => ok(0))).toBe(value);
+      // @ts-expect-error unknown type of error
+      notFound.catchTag('unknown', () => ok(0));
+    });
+  });
+  describe('sandbox()', () => {
+    test('should keep expected error apart from Defect', () => {
+      const parse = (s: string): Result<number, string> =>
+        s ? ok(JSON.parse(s)) : err('empty');
+      const parsed: Result<number, string | Defect> = Result.sandbox(() =>
+        parse('1'),
+      );
+      expect(parsed.unwrap()).toBe(1);
+      expect(Result.sandbox(() => parse('')).unwrapErr()).toBe('empty');
+      const defect = Result.sandbox(() => parse('{')).unwrapErr();
+      expect(defect).toBeInstanceOf(Defect);
+      expect(defect).toMatchObject({ cause: expect.any(SyntaxError) });
+    });
+  });
 });
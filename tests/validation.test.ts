@@ -0,0 +1,52 @@
+import { NonEmptyArray, Validation } from '../src/validation';
+import { err, ok, Result } from '../src/result';
+
+describe('Validation<T, E>', () => {
+  const name = (v: string): Result<string, string> =>
+    v.length > 0 ? ok(v) : err('name is empty');
+  const age = (v: number): Result<number, { type: 'age' }> =>
+    v >= 0 ? ok(v) : err({ type: 'age' });
+  test('fromResult() should wrap the error in an array', () => {
+    expect(Validation.fromResult(err('e')).unwrapErr()).toEqual(['e']);
+    expect(Validation.fromResult(ok(1)).unwrap()).toBe(1);
+  });
+  test('combine() should collect errors of plain results', () => {
+    const valid: Validation<[string, number], string | { type: 'age' }> =
+      Validation.combine([name('a'), age(1)]);
+    expect(valid.unwrap()).toEqual(['a', 1]);
+    expect(Validation.combine([name(''), age(-1)]).unwrapErr()).toEqual([
+      'name is empty',
+      { type: 'age' },
+    ]);
+  });
+  test('zip() and mapN() should concatenate errors of validations', () => {
+    const a = Validation.fromResult(name(''));
+    const b: Validation<number, string> = err(['x', 'y']);
+    const errors: NonEmptyArray<string> = Validation.zip([a, b]).unwrapErr();
+    expect(errors).toEqual(['name is empty', 'x', 'y']);
+    const mapped = Validation.mapN(
+      [Validation.fromResult(name('a')), Validation.fromResult(age(2))],
+      (n, a) => `${n}:${a}`,
+    );
+    expect(mapped.unwrap()).toBe('a:2');
+    expect(Validation.mapN([a, b], () => 'never').unwrapErr()).toEqual([
+      'name is empty',
+      'x',
+      'y',
+    ]);
+  });
+  test('zipWith() should combine two validations', () => {
+    const a = Validation.fromResult(name('a'));
+    const b = Validation.fromResult(age(-1));
+    expect(Validation.zipWith(a, a, (x, y) => x + y).unwrap()).toBe('aa');
+    expect(Validation.zipWith(a, b, (x, y) => x + y).unwrapErr()).toEqual([
+      { type: 'age' },
+    ]);
+  });
+  test('toResult() should return a result with an array of errors', () => {
+    const r: Result<number, string[]> = Validation.toResult(
+      Validation.fromResult(err<string, number>('e')),
+    );
+    expect(r.unwrapErr()).toEqual(['e']);
+  });
+});